@@ -0,0 +1,330 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ConfluenceApiClient } from "./confluence-api.ts";
+import {
+	ConfluenceAuthError,
+	ConfluenceConflictError,
+	ConfluenceNotFoundError,
+	ConfluenceServerError,
+	ConfluenceTitleConflictError,
+	parseRetryAfter
+} from "./confluence-errors.ts";
+
+// Respond to successive requests with the given responses (or thrown errors)
+const mockFetch = (...responses: Array<() => Response>) => {
+	let calls = 0;
+	mock.method(globalThis, "fetch", async () => responses[Math.min(calls++, responses.length - 1)]());
+	return () => calls;
+};
+
+const createClient = () =>
+	new ConfluenceApiClient({
+		baseUrl: "https://fake-test-confluence.invalid/wiki",
+		user: "testuser",
+		pass: "testpass",
+		retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 }
+	});
+
+const page = { id: "1", title: "Page", version: { number: 1 } };
+
+describe("ConfluenceApiClient", () => {
+	afterEach(() => {
+		mock.restoreAll();
+	});
+
+	describe("retries", () => {
+		it("should retry rate limited requests", async () => {
+			const calls = mockFetch(
+				() => new Response("slow down", { status: 429, headers: { "Retry-After": "0" } }),
+				() => Response.json(page)
+			);
+
+			const result = await createClient().getPage("1");
+
+			assert.equal(result?.id, "1");
+			assert.equal(calls(), 2);
+		});
+
+		it("should retry server and network errors", async () => {
+			const calls = mockFetch(
+				() => new Response("unavailable", { status: 503 }),
+				() => {
+					throw new TypeError("fetch failed");
+				},
+				() => Response.json(page)
+			);
+
+			const result = await createClient().getPage("1");
+
+			assert.equal(result?.id, "1");
+			assert.equal(calls(), 3);
+		});
+
+		it("should give up after the configured number of retries", async () => {
+			const calls = mockFetch(() => new Response("broken", { status: 500 }));
+
+			await assert.rejects(createClient().getPage("1"), ConfluenceServerError);
+			assert.equal(calls(), 3);
+		});
+
+		it("should only retry POST requests that were rate limited", async () => {
+			const newPage = {
+				type: "page" as const,
+				title: "Guide",
+				space: { key: "DEV" },
+				body: { storage: { value: "", representation: "storage" as const } }
+			};
+
+			const failed = mockFetch(
+				() => new Response("bad gateway", { status: 502 }),
+				() => Response.json(page)
+			);
+			await assert.rejects(createClient().createPage(newPage), ConfluenceServerError);
+			assert.equal(failed(), 1);
+			mock.restoreAll();
+
+			const limited = mockFetch(
+				() => new Response("slow down", { status: 429, headers: { "Retry-After": "0" } }),
+				() => Response.json(page)
+			);
+			assert.equal((await createClient().createPage(newPage)).id, "1");
+			assert.equal(limited(), 2);
+		});
+
+		it("should not retry client errors", async () => {
+			const calls = mockFetch(() => new Response("stale version", { status: 409 }));
+
+			await assert.rejects(
+				createClient().updatePage({
+					id: "1",
+					type: "page",
+					title: "Page",
+					body: { storage: { value: "", representation: "storage" } },
+					version: { number: 2 }
+				}),
+				ConfluenceConflictError
+			);
+			assert.equal(calls(), 1);
+		});
+	});
+
+	describe("typed errors", () => {
+		it("should return null for pages that don't exist", async () => {
+			mockFetch(() => new Response("missing", { status: 404 }));
+
+			assert.equal(await createClient().getPage("1"), null);
+		});
+
+		it("should raise auth errors", async () => {
+			mockFetch(() => new Response("denied", { status: 401 }));
+
+			await assert.rejects(createClient().getSpace("DEV"), ConfluenceAuthError);
+		});
+
+		it("should raise title conflicts", async () => {
+			mockFetch(
+				() =>
+					new Response(
+						'{"message":"A page with this title already exists: A page already exists with the title Guide"}',
+						{
+							status: 400
+						}
+					)
+			);
+
+			await assert.rejects(
+				createClient().createPage({
+					type: "page",
+					title: "Guide",
+					space: { key: "DEV" },
+					body: { storage: { value: "", representation: "storage" } }
+				}),
+				ConfluenceTitleConflictError
+			);
+		});
+
+		it("should raise not found errors for other lookups", async () => {
+			mockFetch(() => new Response("missing", { status: 404 }));
+
+			await assert.rejects(createClient().getSpace("DEV"), ConfluenceNotFoundError);
+		});
+	});
+
+	describe("findPageByTitle", () => {
+		it("should look the title up in the space", async () => {
+			const urls: string[] = [];
+			mock.method(globalThis, "fetch", async (url: string) => {
+				urls.push(url);
+				return Response.json({ results: [{ ...page, title: 'Guide "v2"' }] });
+			});
+
+			const result = await createClient().findPageByTitle("DEV", 'Guide "v2"');
+
+			assert.equal(result?.id, "1");
+			const params = new URL(urls[0]).searchParams;
+			assert.equal(params.get("spaceKey"), "DEV");
+			assert.equal(params.get("title"), 'Guide "v2"');
+			assert.equal(params.get("expand"), "body.storage,version,space,ancestors");
+		});
+
+		it("should return null when no page has the title", async () => {
+			mockFetch(() => Response.json({ results: [] }));
+
+			assert.equal(await createClient().findPageByTitle("DEV", "Page"), null);
+		});
+	});
+
+	describe("attachments", () => {
+		it("should read every page of attachments", async () => {
+			const urls: string[] = [];
+			mock.method(globalThis, "fetch", async (url: string) => {
+				urls.push(url);
+				const count = urls.length === 1 ? 100 : 1;
+				const results = Array.from({ length: count }, (_, index) => ({ id: `att${urls.length}-${index}` }));
+				return Response.json({ results, size: count });
+			});
+
+			const attachments = await createClient().getAttachments("1");
+
+			assert.equal(attachments.length, 101);
+			assert.deepEqual(
+				urls.map((url) => new URL(url).searchParams.get("start")),
+				["0", "100"]
+			);
+		});
+
+		it("should upload attachments as multipart form data without the XSRF check", async () => {
+			const requests: Array<{ url: string; init: RequestInit }> = [];
+			mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+				requests.push({ url, init });
+				return url.endsWith("/data") ? Response.json({ id: "att1" }) : Response.json({ results: [{ id: "att2" }] });
+			});
+			const upload = { filename: "logo.png", data: Buffer.from("png"), contentType: "image/png", comment: "Synced" };
+
+			const updated = await createClient().uploadAttachment("1", { ...upload, attachmentId: "att1" });
+			const created = await createClient().uploadAttachment("1", upload);
+
+			assert.equal(updated.id, "att1");
+			assert.equal(created.id, "att2");
+			assert.deepEqual(
+				requests.map((request) => request.url.replace("https://fake-test-confluence.invalid/wiki/rest/api", "")),
+				["/content/1/child/attachment/att1/data", "/content/1/child/attachment"]
+			);
+
+			const { init } = requests[1];
+			const headers = init.headers as Record<string, string>;
+			const form = init.body as FormData;
+			const file = form.get("file") as File;
+			assert.equal(init.method, "POST");
+			assert.equal(headers["X-Atlassian-Token"], "no-check");
+			assert.equal(headers["Content-Type"], undefined, "should let fetch set the multipart boundary");
+			assert.equal(file.name, "logo.png");
+			assert.equal(file.type, "image/png");
+			assert.equal(await file.text(), "png");
+			assert.equal(form.get("comment"), "Synced");
+			assert.equal(form.get("minorEdit"), "true");
+		});
+	});
+
+	describe("searchContent", () => {
+		it("should follow the next links of the results", async () => {
+			const urls: string[] = [];
+			const next = "/rest/api/content/search?cql=label%3Ddocs&cursor=abc&next=true&limit=50";
+			mock.method(globalThis, "fetch", async (url: string) => {
+				urls.push(url);
+				return urls.length === 1
+					? Response.json({ results: [{ ...page, id: "1" }], _links: { next } })
+					: Response.json({ results: [{ ...page, id: "2" }], _links: {} });
+			});
+
+			const results = await createClient().searchContent("label=docs");
+
+			assert.deepEqual(
+				results.map((result) => result.id),
+				["1", "2"]
+			);
+			assert.equal(urls[1], `https://fake-test-confluence.invalid/wiki${next}`);
+		});
+
+		it("should stop when a page only repeats results", async () => {
+			const calls = mockFetch(() =>
+				Response.json({ results: [page], _links: { next: "/rest/api/content/search?cql=x&start=50" } })
+			);
+
+			const results = await createClient().searchContent("label=docs");
+
+			assert.equal(results.length, 1);
+			assert.equal(calls(), 2);
+		});
+	});
+
+	describe("authentication", () => {
+		// Record URL and Authorization header of every request
+		const recordRequests = (tokenResponse?: object) => {
+			const requests: Array<{ url: string; authorization?: string }> = [];
+			mock.method(globalThis, "fetch", async (url: string, init: RequestInit = {}) => {
+				const headers = (init.headers ?? {}) as Record<string, string>;
+				requests.push({ url, authorization: headers["Authorization"] });
+				return url.endsWith("/oauth/token") ? Response.json(tokenResponse) : Response.json(page);
+			});
+			return requests;
+		};
+
+		it("should send a bearer personal access token and use the configured API path", async () => {
+			const requests = recordRequests();
+			const client = new ConfluenceApiClient({
+				baseUrl: "https://confluence.example.com/confluence",
+				apiPath: "/rest/api",
+				authType: "bearer",
+				token: "pat-123"
+			});
+
+			await client.getPage("1");
+
+			assert.deepEqual(requests, [
+				{
+					url: "https://confluence.example.com/confluence/rest/api/content/1?expand=body.storage,version,space,ancestors",
+					authorization: "Bearer pat-123"
+				}
+			]);
+		});
+
+		it("should fetch an OAuth 2.0 token once and reuse it", async () => {
+			const requests = recordRequests({ access_token: "oauth-456", expires_in: 3600 });
+			const client = new ConfluenceApiClient({
+				baseUrl: "https://api.atlassian.com/ex/confluence/cloud-id/wiki",
+				authType: "oauth2",
+				oauth: { clientId: "id", clientSecret: "secret" }
+			});
+
+			await client.getPage("1");
+			await client.getPage("2");
+
+			assert.equal(requests.filter((request) => request.url.endsWith("/oauth/token")).length, 1);
+			assert.ok(
+				requests
+					.filter((request) => request.url.includes("/content/"))
+					.every((request) => request.authorization === "Bearer oauth-456")
+			);
+		});
+
+		it("should require the credentials of the selected auth type", () => {
+			assert.throws(
+				() => new ConfluenceApiClient({ baseUrl: "https://example.com", authType: "bearer" }),
+				/personal access token/
+			);
+			assert.throws(() => new ConfluenceApiClient({ baseUrl: "https://example.com" }), /user and pass/);
+		});
+	});
+
+	describe("parseRetryAfter", () => {
+		it("should parse seconds and HTTP dates", () => {
+			const now = Date.parse("2025-01-01T00:00:00Z");
+
+			assert.equal(parseRetryAfter("5", now), 5000);
+			assert.equal(parseRetryAfter("Wed, 01 Jan 2025 00:00:10 GMT", now), 10000);
+			assert.equal(parseRetryAfter("soon", now), undefined);
+			assert.equal(parseRetryAfter(null, now), undefined);
+		});
+	});
+});
@@ -1,11 +1,66 @@
+import {
+	ConfluenceApiError,
+	ConfluenceNetworkError,
+	ConfluenceNotFoundError,
+	ConfluenceRateLimitError,
+	createConfluenceError
+} from "./confluence-errors";
 import { createLogger } from "./utils/logging";
 
+export interface RetryOptions {
+	/**
+	 * Number of times a failed request is retried
+	 * @default 3
+	 */
+	maxRetries?: number;
+	/**
+	 * Delay before the first retry, doubled for each further attempt
+	 * @default 1000
+	 */
+	baseDelayMs?: number;
+	/**
+	 * Upper bound for the backoff delay (a Retry-After header may ask for longer)
+	 * @default 30000
+	 */
+	maxDelayMs?: number;
+}
+
+export type ConfluenceAuthType = "basic" | "bearer" | "oauth2";
+
+export interface OAuthClientCredentials {
+	clientId: string;
+	clientSecret: string;
+	/**
+	 * Token endpoint
+	 * @default "https://auth.atlassian.com/oauth/token"
+	 */
+	tokenUrl?: string;
+	scope?: string;
+}
+
 export interface ConfluenceConfig {
 	baseUrl: string;
+	/**
+	 * Authentication scheme: Basic (Cloud user + API token), Bearer (Data Center
+	 * personal access token) or OAuth 2.0 client credentials
+	 * @default "basic"
+	 */
+	authType?: ConfluenceAuthType;
 	user?: string;
 	pass?: string;
+	/** Personal access token for Bearer auth */
+	token?: string;
+	oauth?: OAuthClientCredentials;
+	/**
+	 * Path of the REST API below baseUrl
+	 * @default "/rest/api"
+	 */
+	apiPath?: string;
+	retry?: RetryOptions;
 }
 
+const DEFAULT_OAUTH_TOKEN_URL = "https://auth.atlassian.com/oauth/token";
+
 export interface ConfluencePage {
 	id: string;
 	type: string;
@@ -19,10 +74,28 @@ export interface ConfluencePage {
 	};
 	version: {
 		number: number;
+		/** Author of the version (Cloud sets publicName, Data Center username) */
+		by?: {
+			displayName?: string;
+			publicName?: string;
+			username?: string;
+		};
+		/** When the version was created, as an ISO timestamp */
+		when?: string;
 	};
 	space?: {
 		key: string;
 	};
+	/** Parent pages, from the top of the space down to the direct parent */
+	ancestors?: Array<{ id: string; title?: string }>;
+	/** Content properties, when requested with `expand=metadata.properties.<key>` */
+	metadata?: {
+		properties?: Record<string, ConfluenceContentProperty>;
+	};
+	_links?: {
+		base?: string;
+		webui?: string;
+	};
 }
 
 export interface ConfluencePageCreate {
@@ -50,64 +123,220 @@ export interface ConfluencePageUpdate {
 			representation: "storage";
 		};
 	};
+	/** Moves the page below another parent */
+	ancestors?: Array<{ id: string }>;
 	version: {
 		number: number;
+		/** Shown in the page history */
+		message?: string;
+		/** Minor edits don't notify the page's watchers */
+		minorEdit?: boolean;
+	};
+}
+
+export interface ConfluenceAttachment {
+	id: string;
+	type: string;
+	title: string;
+	version: {
+		number: number;
+	};
+	metadata?: {
+		comment?: string;
+		mediaType?: string;
+	};
+	extensions?: {
+		comment?: string;
+		fileSize?: number;
+		mediaType?: string;
+	};
+}
+
+export interface ConfluenceAttachmentUpload {
+	filename: string;
+	data: Buffer;
+	contentType?: string;
+	comment?: string;
+	/**
+	 * ID of an existing attachment to upload a new version of
+	 */
+	attachmentId?: string;
+}
+
+export interface ConfluenceContentProperty<T = unknown> {
+	id?: string;
+	key: string;
+	value: T;
+	version?: {
+		number: number;
 	};
 }
 
 export class ConfluenceApiClient {
 	private config: ConfluenceConfig;
 	private logger = createLogger(false, "ConfluenceAPI");
+	private oauthToken?: { value: string; expiresAt: number };
+	private oauthTokenRequest?: Promise<string>;
 
 	constructor(config: ConfluenceConfig, debug: boolean = false) {
 		this.config = config;
 		this.logger = createLogger(debug, "ConfluenceAPI");
 
 		// Validate authentication
-		if (!this.config.user || !this.config.pass) {
+		const authType = this.config.authType ?? "basic";
+		if (authType === "basic" && (!this.config.user || !this.config.pass)) {
 			throw new Error("Both user and pass must be provided for authentication");
 		}
+		if (authType === "bearer" && !this.config.token) {
+			throw new Error("A personal access token must be provided for bearer authentication");
+		}
+		if (authType === "oauth2" && (!this.config.oauth?.clientId || !this.config.oauth?.clientSecret)) {
+			throw new Error("Both clientId and clientSecret must be provided for OAuth 2.0 authentication");
+		}
 	}
 
 	/**
 	 * Get authentication headers for API requests
 	 */
-	private getAuthHeaders(): Record<string, string> {
+	private async getAuthHeaders(): Promise<Record<string, string>> {
 		const headers: Record<string, string> = {
 			"Content-Type": "application/json",
 			Accept: "application/json"
 		};
 
-		const credentials = Buffer.from(`${this.config.user}:${this.config.pass}`).toString("base64");
-		headers["Authorization"] = `Basic ${credentials}`;
+		switch (this.config.authType ?? "basic") {
+			case "bearer":
+				headers["Authorization"] = `Bearer ${this.config.token}`;
+				break;
+			case "oauth2":
+				headers["Authorization"] = `Bearer ${await this.getOAuthToken()}`;
+				break;
+			case "basic": {
+				const credentials = Buffer.from(`${this.config.user}:${this.config.pass}`).toString("base64");
+				headers["Authorization"] = `Basic ${credentials}`;
+				break;
+			}
+		}
 
 		return headers;
 	}
 
+	/**
+	 * Get an OAuth 2.0 access token with the client credentials grant, reusing it until it expires
+	 */
+	private async getOAuthToken(): Promise<string> {
+		if (this.oauthToken && this.oauthToken.expiresAt > Date.now()) {
+			return this.oauthToken.value;
+		}
+
+		this.oauthToken = undefined;
+		this.oauthTokenRequest ??= this.requestOAuthToken().finally(() => {
+			this.oauthTokenRequest = undefined;
+		});
+		return this.oauthTokenRequest;
+	}
+
+	private async requestOAuthToken(): Promise<string> {
+		const { clientId, clientSecret, tokenUrl = DEFAULT_OAUTH_TOKEN_URL, scope } = this.config.oauth!;
+		this.logger.debug(`Requesting OAuth 2.0 access token from ${tokenUrl}`);
+
+		const response = await fetch(tokenUrl, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", Accept: "application/json" },
+			body: JSON.stringify({
+				grant_type: "client_credentials",
+				client_id: clientId,
+				client_secret: clientSecret,
+				...(scope ? { scope } : {})
+			})
+		});
+
+		if (!response.ok) {
+			throw await createConfluenceError(response);
+		}
+
+		const token = (await response.json()) as { access_token: string; expires_in?: number };
+		// Refresh a minute early so a token doesn't expire mid-request
+		const lifetimeMs = (token.expires_in ?? 3600) * 1000;
+		this.oauthToken = { value: token.access_token, expiresAt: Date.now() + lifetimeMs - 60000 };
+		return token.access_token;
+	}
+
 	/**
 	 * Make an authenticated request to the Confluence API
+	 *
+	 * Rate limited (429), server (5xx) and network errors are retried with
+	 * exponential backoff and jitter, honoring the Retry-After header when present.
+	 * POST requests aren't idempotent and may have been processed before a server or
+	 * network error (such as a page created before the connection dropped), so they
+	 * are only retried when rate limited.
 	 */
 	private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
-		const url = `${this.config.baseUrl}/rest/api${endpoint}`;
+		const { maxRetries = 3, baseDelayMs = 1000, maxDelayMs = 30000 } = this.config.retry ?? {};
+		const idempotent = options.method !== "POST";
+
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await this.sendRequest(endpoint, options);
+			} catch (error) {
+				const retryable =
+					error instanceof ConfluenceApiError &&
+					error.retryable &&
+					(idempotent || error instanceof ConfluenceRateLimitError);
+				if (!retryable || attempt >= maxRetries) {
+					throw error;
+				}
+
+				const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+				const delay =
+					error instanceof ConfluenceRateLimitError && error.retryAfterMs !== undefined
+						? error.retryAfterMs
+						: backoff / 2 + Math.random() * (backoff / 2);
+
+				this.logger.warn(
+					`Request to ${endpoint} failed (${error.status ?? error.message}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${maxRetries})`
+				);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
+		}
+	}
+
+	/**
+	 * Send a single request, converting failures to typed errors
+	 */
+	private async sendRequest(endpoint: string, options: RequestInit): Promise<Response> {
+		const url = `${this.config.baseUrl}${this.config.apiPath ?? "/rest/api"}${endpoint}`;
 		this.logger.debug(`Making ${options.method || "GET"} request to: ${url}`);
 
+		const headers: Record<string, string> = {
+			...(await this.getAuthHeaders()),
+			...(options.headers as Record<string, string> | undefined)
+		};
+
+		// Multipart uploads set their own content type and must bypass XSRF checks
+		if (options.body instanceof FormData) {
+			delete headers["Content-Type"];
+			headers["X-Atlassian-Token"] = "no-check";
+		}
+
 		const requestOptions: RequestInit = {
 			...options,
-			headers: {
-				...this.getAuthHeaders(),
-				...options.headers
-			}
+			headers
 		};
 
-		const response = await fetch(url, requestOptions);
+		let response: Response;
+		try {
+			response = await fetch(url, requestOptions);
+		} catch (error) {
+			throw new ConfluenceNetworkError(
+				`Confluence API request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`
+			);
+		}
 
 		this.logger.debug(`Response status: ${response.status} ${response.statusText}`);
 
 		if (!response.ok) {
-			const errorText = await response.text();
-			throw new Error(
-				`Confluence API request failed: ${response.status} ${response.statusText}\nResponse: ${errorText}`
-			);
+			throw await createConfluenceError(response);
 		}
 
 		return response;
@@ -119,12 +348,12 @@ export class ConfluenceApiClient {
 	async getPage(pageId: string): Promise<ConfluencePage | null> {
 		try {
 			this.logger.info(`Fetching page with ID: ${pageId}`);
-			const response = await this.makeRequest(`/content/${pageId}?expand=body.storage,version,space`);
+			const response = await this.makeRequest(`/content/${pageId}?expand=body.storage,version,space,ancestors`);
 			const page = (await response.json()) as ConfluencePage;
 			this.logger.info(`Successfully fetched page: ${page.title}`);
 			return page;
 		} catch (error) {
-			if (error instanceof Error && error.message.includes("404")) {
+			if (error instanceof ConfluenceNotFoundError) {
 				this.logger.info(`Page with ID ${pageId} not found`);
 				return null;
 			}
@@ -133,6 +362,32 @@ export class ConfluenceApiClient {
 		}
 	}
 
+	/**
+	 * Find a page by its title within a space
+	 *
+	 * Titles are unique within a space and matched exactly, so this locates the
+	 * page the title belongs to, wherever it is in the space.
+	 */
+	async findPageByTitle(spaceKey: string, title: string): Promise<ConfluencePage | null> {
+		this.logger.info(`Looking up page "${title}" in space ${spaceKey}`);
+		const params = new URLSearchParams({
+			spaceKey,
+			title,
+			type: "page",
+			expand: "body.storage,version,space,ancestors"
+		});
+		const response = await this.makeRequest(`/content?${params.toString()}`);
+		const { results } = (await response.json()) as { results: ConfluencePage[] };
+
+		if (results.length === 0) {
+			this.logger.info(`Page "${title}" not found in space ${spaceKey}`);
+			return null;
+		}
+
+		this.logger.info(`Found page "${title}" (ID: ${results[0].id})`);
+		return results[0];
+	}
+
 	/**
 	 * Create a new page
 	 */
@@ -165,6 +420,206 @@ export class ConfluenceApiClient {
 		return updatedPage;
 	}
 
+	/**
+	 * List all attachments of a page
+	 */
+	async getAttachments(pageId: string): Promise<ConfluenceAttachment[]> {
+		this.logger.debug(`Fetching attachments for page ${pageId}`);
+
+		const attachments: ConfluenceAttachment[] = [];
+		const limit = 100;
+		let start = 0;
+
+		while (true) {
+			const response = await this.makeRequest(
+				`/content/${pageId}/child/attachment?expand=version,metadata&start=${start}&limit=${limit}`
+			);
+			const page = (await response.json()) as { results: ConfluenceAttachment[]; size: number };
+			attachments.push(...page.results);
+
+			if (page.size < limit) {
+				break;
+			}
+			start += limit;
+		}
+
+		this.logger.debug(`Found ${attachments.length} attachments on page ${pageId}`);
+		return attachments;
+	}
+
+	/**
+	 * Upload a file as a page attachment, or a new version of an existing attachment
+	 */
+	async uploadAttachment(pageId: string, upload: ConfluenceAttachmentUpload): Promise<ConfluenceAttachment> {
+		this.logger.info(`Uploading attachment ${upload.filename} to page ${pageId}`);
+
+		const form = new FormData();
+		form.append(
+			"file",
+			new Blob([new Uint8Array(upload.data)], { type: upload.contentType || "application/octet-stream" }),
+			upload.filename
+		);
+		form.append("minorEdit", "true");
+		if (upload.comment) {
+			form.append("comment", upload.comment);
+		}
+
+		const endpoint = upload.attachmentId
+			? `/content/${pageId}/child/attachment/${upload.attachmentId}/data`
+			: `/content/${pageId}/child/attachment`;
+
+		const response = await this.makeRequest(endpoint, {
+			method: "POST",
+			body: form
+		});
+
+		// Creating returns a result list, updating returns the attachment itself
+		const json = (await response.json()) as ConfluenceAttachment | { results: ConfluenceAttachment[] };
+		const attachment = "results" in json ? json.results[0] : json;
+		this.logger.info(`Successfully uploaded attachment ${upload.filename} (ID: ${attachment.id})`);
+		return attachment;
+	}
+
+	/**
+	 * Get a content property of a page, or null if it isn't set
+	 */
+	async getContentProperty<T>(pageId: string, key: string): Promise<ConfluenceContentProperty<T> | null> {
+		try {
+			this.logger.debug(`Fetching content property ${key} of page ${pageId}`);
+			const response = await this.makeRequest(`/content/${pageId}/property/${encodeURIComponent(key)}`);
+			return (await response.json()) as ConfluenceContentProperty<T>;
+		} catch (error) {
+			if (error instanceof ConfluenceNotFoundError) {
+				this.logger.debug(`Content property ${key} not set on page ${pageId}`);
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Create or update a content property of a page
+	 * @param existing - The current property, if one was already fetched
+	 */
+	async setContentProperty<T>(
+		pageId: string,
+		key: string,
+		value: T,
+		existing?: ConfluenceContentProperty<T> | null
+	): Promise<ConfluenceContentProperty<T>> {
+		const current = existing === undefined ? await this.getContentProperty<T>(pageId, key) : existing;
+		this.logger.debug(`Setting content property ${key} on page ${pageId}`);
+
+		const response = current
+			? await this.makeRequest(`/content/${pageId}/property/${encodeURIComponent(key)}`, {
+					method: "PUT",
+					body: JSON.stringify({ key, value, version: { number: (current.version?.number ?? 0) + 1 } })
+				})
+			: await this.makeRequest(`/content/${pageId}/property`, {
+					method: "POST",
+					body: JSON.stringify({ key, value })
+				});
+
+		return (await response.json()) as ConfluenceContentProperty<T>;
+	}
+
+	/**
+	 * List the names of all labels on a page
+	 */
+	async getLabels(pageId: string): Promise<string[]> {
+		this.logger.debug(`Fetching labels of page ${pageId}`);
+
+		const labels: string[] = [];
+		const limit = 200;
+		let start = 0;
+
+		while (true) {
+			const response = await this.makeRequest(`/content/${pageId}/label?start=${start}&limit=${limit}`);
+			const page = (await response.json()) as { results: Array<{ name: string }>; size: number };
+			labels.push(...page.results.map((label) => label.name));
+
+			if (page.size < limit) {
+				break;
+			}
+			start += limit;
+		}
+
+		return labels;
+	}
+
+	/**
+	 * Add labels to a page (labels it already has are left as they are)
+	 */
+	async addLabels(pageId: string, labels: string[]): Promise<void> {
+		this.logger.debug(`Adding labels to page ${pageId}: ${labels.join(", ")}`);
+		await this.makeRequest(`/content/${pageId}/label`, {
+			method: "POST",
+			body: JSON.stringify(labels.map((name) => ({ prefix: "global", name })))
+		});
+	}
+
+	/**
+	 * Remove a label from a page
+	 */
+	async removeLabel(pageId: string, label: string): Promise<void> {
+		this.logger.debug(`Removing label ${label} from page ${pageId}`);
+		await this.makeRequest(`/content/${pageId}/label?name=${encodeURIComponent(label)}`, { method: "DELETE" });
+	}
+
+	/**
+	 * Search content with CQL, following the `next` links until all results are read
+	 *
+	 * Confluence Cloud pages search results with a cursor and ignores `start`, while
+	 * the `next` link works on Cloud and Data Center alike. Reading stops at a page of
+	 * results that were all returned before, so a server that doesn't move on can't loop forever.
+	 */
+	async searchContent(cql: string, expand: string = "version,space"): Promise<ConfluencePage[]> {
+		this.logger.debug(`Searching content: ${cql}`);
+
+		const pages: ConfluencePage[] = [];
+		const seen = new Set<string>();
+		const apiPath = this.config.apiPath ?? "/rest/api";
+		let endpoint: string | undefined =
+			`/content/search?${new URLSearchParams({ cql, expand, limit: "50" }).toString()}`;
+
+		while (endpoint) {
+			const response = await this.makeRequest(endpoint);
+			const page = (await response.json()) as { results: ConfluencePage[]; _links?: { next?: string } };
+			const results = page.results.filter((result) => !seen.has(result.id));
+			if (results.length === 0) {
+				break;
+			}
+			results.forEach((result) => seen.add(result.id));
+			pages.push(...results);
+
+			// The link is relative to the base URL and includes the API path
+			const next = page._links?.next;
+			endpoint = next?.startsWith(apiPath) ? next.slice(apiPath.length) : next;
+		}
+
+		this.logger.debug(`Search returned ${pages.length} results`);
+		return pages;
+	}
+
+	/**
+	 * Archive pages (Confluence Cloud only)
+	 */
+	async archivePages(pageIds: string[]): Promise<void> {
+		this.logger.info(`Archiving pages: ${pageIds.join(", ")}`);
+		await this.makeRequest("/content/archive", {
+			method: "POST",
+			body: JSON.stringify({ pages: pageIds.map((id) => ({ id })) })
+		});
+	}
+
+	/**
+	 * Delete a page (moves it to the space's trash)
+	 */
+	async deletePage(pageId: string): Promise<void> {
+		this.logger.info(`Deleting page with ID: ${pageId}`);
+		await this.makeRequest(`/content/${pageId}`, { method: "DELETE" });
+	}
+
 	/**
 	 * Get space information by key
 	 */
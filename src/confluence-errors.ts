@@ -0,0 +1,132 @@
+/**
+ * Base class for errors returned by the Confluence REST API
+ */
+export class ConfluenceApiError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+		public readonly responseBody?: string
+	) {
+		super(message);
+		this.name = new.target.name;
+	}
+
+	/**
+	 * Whether the request may succeed when sent again
+	 */
+	get retryable(): boolean {
+		return false;
+	}
+}
+
+/**
+ * 401/403: missing or invalid credentials, or no permission for the resource
+ */
+export class ConfluenceAuthError extends ConfluenceApiError {}
+
+/**
+ * 404: the page, space or property doesn't exist (or isn't visible to the user)
+ */
+export class ConfluenceNotFoundError extends ConfluenceApiError {}
+
+/**
+ * 400: another page in the space already has the title of the created or updated page
+ */
+export class ConfluenceTitleConflictError extends ConfluenceApiError {}
+
+/**
+ * 409: the update conflicts with the current state, e.g. a stale version number
+ */
+export class ConfluenceConflictError extends ConfluenceApiError {}
+
+/**
+ * 429: the request was rate limited
+ */
+export class ConfluenceRateLimitError extends ConfluenceApiError {
+	constructor(
+		message: string,
+		status: number,
+		responseBody: string,
+		/** Delay requested by the Retry-After header, in milliseconds */
+		public readonly retryAfterMs?: number
+	) {
+		super(message, status, responseBody);
+	}
+
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/**
+ * 5xx: the server failed to handle the request
+ */
+export class ConfluenceServerError extends ConfluenceApiError {
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/**
+ * The request didn't get a response, e.g. a DNS failure or dropped connection
+ */
+export class ConfluenceNetworkError extends ConfluenceApiError {
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+	if (!header) {
+		return undefined;
+	}
+
+	const seconds = Number(header);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Create the typed error for a failed response
+ */
+export async function createConfluenceError(response: Response): Promise<ConfluenceApiError> {
+	const errorText = await response.text();
+	const message = `Confluence API request failed: ${response.status} ${response.statusText}\nResponse: ${errorText}`;
+	const { status } = response;
+
+	if (status === 401 || status === 403) {
+		return new ConfluenceAuthError(message, status, errorText);
+	}
+	if (
+		status === 400 &&
+		/already exists with the (?:same )?title|page with this title already exists/i.test(errorText)
+	) {
+		return new ConfluenceTitleConflictError(message, status, errorText);
+	}
+	if (status === 404) {
+		return new ConfluenceNotFoundError(message, status, errorText);
+	}
+	if (status === 409) {
+		return new ConfluenceConflictError(message, status, errorText);
+	}
+	if (status === 429) {
+		return new ConfluenceRateLimitError(
+			message,
+			status,
+			errorText,
+			parseRetryAfter(response.headers.get("Retry-After"))
+		);
+	}
+	if (status >= 500) {
+		return new ConfluenceServerError(message, status, errorText);
+	}
+	return new ConfluenceApiError(message, status, errorText);
+}
@@ -0,0 +1,184 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import type { ConfluenceApiClient, ConfluencePageCreate } from "./confluence-api.ts";
+import {
+	findDuplicateTitles,
+	listDirectoryFolders,
+	listDirectoryPages,
+	scanDirectory,
+	syncDirectory,
+	titleFromName
+} from "./directories.ts";
+import type { SyncFilesOptions, SyncResult } from "./types.ts";
+
+describe("directories", () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "directories-test-"));
+		const files = [
+			"docs/overview.md",
+			"docs/getting-started.md",
+			"docs/guides/README.md",
+			"docs/guides/setup.md",
+			"docs/guides/advanced/tuning.md",
+			"docs/drafts/wip.md",
+			"docs/images/diagram.png"
+		];
+		for (const file of files) {
+			await fs.mkdir(path.join(tempDir, path.dirname(file)), { recursive: true });
+			await fs.writeFile(path.join(tempDir, file), "# Content");
+		}
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	describe("titleFromName", () => {
+		it("should turn file names into titles", () => {
+			assert.equal(titleFromName("getting-started.md"), "Getting Started");
+			assert.equal(titleFromName("guides/api_reference.md"), "Api Reference");
+			assert.equal(titleFromName("advanced"), "Advanced");
+		});
+	});
+
+	describe("scanDirectory", () => {
+		const mapping = { source: "docs", rootPageId: "100", spaceKey: "DEV", exclude: ["drafts/**"] };
+
+		it("should mirror the folder structure", async () => {
+			const tree = await scanDirectory(mapping, tempDir);
+
+			assert.deepEqual(tree.files, [path.join("docs", "getting-started.md"), path.join("docs", "overview.md")]);
+			assert.equal(tree.children.length, 1, "should skip excluded and empty folders");
+
+			const guides = tree.children[0];
+			assert.equal(guides.name, "guides");
+			assert.equal(guides.folder, path.join("docs", "guides"));
+			assert.equal(guides.indexFile, path.join("docs", "guides", "README.md"));
+			assert.deepEqual(guides.files, [path.join("docs", "guides", "setup.md")]);
+
+			const advanced = guides.children[0];
+			assert.equal(advanced.name, "advanced");
+			assert.equal(advanced.indexFile, undefined);
+			assert.deepEqual(advanced.files, [path.join("docs", "guides", "advanced", "tuning.md")]);
+		});
+
+		it("should apply include globs relative to the source folder", async () => {
+			const tree = await scanDirectory({ ...mapping, include: ["guides/**/*.md"] }, tempDir);
+
+			assert.deepEqual(tree.files, []);
+			assert.deepEqual(tree.children[0].files, [path.join("docs", "guides", "setup.md")]);
+		});
+
+		it("should list the pages a mapping expands to", async () => {
+			const tree = await scanDirectory(mapping, tempDir);
+			const pages = listDirectoryPages(tree, mapping);
+
+			assert.deepEqual(
+				pages.map((page) => page.title),
+				["Getting Started", "Overview", "Guides", "Setup", "Tuning"]
+			);
+			assert.ok(pages.every((page) => page.spaceKey === "DEV"));
+			assert.deepEqual(listDirectoryFolders(tree), [
+				path.join("docs", "guides"),
+				path.join("docs", "guides", "advanced")
+			]);
+		});
+	});
+
+	describe("syncDirectory", () => {
+		const mapping = { source: "docs", rootPageId: "100", spaceKey: "DEV", exclude: ["drafts/**"] };
+		const fileMap = { baseUrl: "https://fake-test-confluence.invalid/wiki", pages: [] };
+
+		// Minimal client holding the pages of a space by title and recording the pages it creates
+		const createClient = (pages: Record<string, { id: string; parentId: string }> = {}) => {
+			const created: ConfluencePageCreate[] = [];
+			const client = {
+				findPageByTitle: async (_spaceKey: string, title: string) =>
+					pages[title] ? { id: pages[title].id, title, ancestors: [{ id: pages[title].parentId }] } : null,
+				createPage: async (page: ConfluencePageCreate) => {
+					created.push(page);
+					return { id: `created-${created.length}`, title: page.title, version: { number: 1 } };
+				},
+				setContentProperty: async () => {},
+				addLabels: async () => {}
+			} as unknown as ConfluenceApiClient;
+			return { client, created };
+		};
+
+		// Sync every page as created, with its file as the page ID
+		const createSyncPage = () => {
+			const synced: SyncFilesOptions["page"][] = [];
+			const syncPage = async ({ page }: SyncFilesOptions): Promise<SyncResult> => {
+				synced.push(page);
+				return { file: page.file, pageId: page.file, title: page.title ?? "", status: "created" };
+			};
+			return { synced, syncPage };
+		};
+
+		it("should nest the pages below their folder pages and create missing index pages", async () => {
+			const tree = await scanDirectory(mapping, tempDir);
+			const { client, created } = createClient();
+			const { synced, syncPage } = createSyncPage();
+
+			const results = await syncDirectory(client, fileMap, mapping, tree, syncPage);
+
+			const guidesIndex = path.join("docs", "guides", "README.md");
+			const parents = Object.fromEntries(synced.map((page) => [page.title, page.parentId]));
+			assert.deepEqual(parents, {
+				"Getting Started": "100",
+				Overview: "100",
+				Guides: "100",
+				Setup: guidesIndex,
+				Tuning: "created-1"
+			});
+			assert.equal(created.length, 1);
+			assert.equal(created[0].title, "Advanced");
+			assert.deepEqual(created[0].ancestors, [{ id: guidesIndex }]);
+			assert.equal(results.length, 5);
+		});
+
+		it("should reuse the index page below the parent and reject pages with the title elsewhere", async () => {
+			const tree = await scanDirectory(mapping, tempDir);
+			const { synced, syncPage } = createSyncPage();
+			const guidesIndex = path.join("docs", "guides", "README.md");
+
+			const reused = createClient({ Advanced: { id: "7", parentId: guidesIndex } });
+			await syncDirectory(reused.client, fileMap, mapping, tree, syncPage);
+			assert.equal(reused.created.length, 0);
+			assert.equal(synced.find((page) => page.title === "Tuning")?.parentId, "7");
+
+			const elsewhere = createClient({ Advanced: { id: "8", parentId: "999" } });
+			const results = await syncDirectory(elsewhere.client, fileMap, mapping, tree, syncPage);
+			assert.equal(elsewhere.created.length, 0);
+			const failed = results.filter((result) => result.status === "failed");
+			assert.deepEqual(
+				failed.map((result) => result.title),
+				["Advanced", "Tuning"]
+			);
+			assert.match(failed[0].error!, /A page titled "Advanced" already exists in space DEV \(ID: 8\)/);
+		});
+
+		it("should fail the whole directory when files or folders would get the same title", async () => {
+			await fs.mkdir(path.join(tempDir, "docs", "sdk"), { recursive: true });
+			await fs.writeFile(path.join(tempDir, "docs", "sdk", "setup.md"), "# Setup");
+			const tree = await scanDirectory(mapping, tempDir);
+			const { client } = createClient();
+			const { synced, syncPage } = createSyncPage();
+
+			assert.deepEqual(findDuplicateTitles(tree), [
+				`"Setup" (${path.join("docs", "guides", "setup.md")}, ${path.join("docs", "sdk", "setup.md")})`
+			]);
+
+			const results = await syncDirectory(client, fileMap, mapping, tree, syncPage);
+
+			assert.equal(synced.length, 0);
+			assert.ok(results.length > 0 && results.every((result) => result.status === "failed"));
+			assert.match(results[0].error!, /Directory docs gives several files or folders the same title: "Setup"/);
+		});
+	});
+});
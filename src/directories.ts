@@ -0,0 +1,286 @@
+import * as core from "@actions/core";
+import { readdir } from "fs/promises";
+import * as path from "path";
+import type { ConfluenceApiClient } from "./confluence-api";
+import { ConfluenceTitleConflictError } from "./confluence-errors";
+import type { DirectoryMappingType, FileMappingType, SyncFilesOptions, SyncResult } from "./types";
+import { matchesAnyGlob } from "./utils/glob";
+import { createFailedResult } from "./syncFiles";
+import { createLogger } from "./utils/logging";
+import { getSyncOwner, hashPageContent, normalizeSourcePath, writeSyncState } from "./utils/sync-state";
+
+const DEFAULT_INCLUDE = ["**/*.md"];
+const INDEX_FILES = ["index.md", "readme.md"];
+const INDEX_PAGE_BODY = '<ac:structured-macro ac:name="children" ac:schema-version="2" />';
+
+/**
+ * A folder of a directory mapping and the files it contains
+ */
+export interface DirectoryNode {
+	/** Folder name, used for the title of its index page */
+	name: string;
+	/** Folder path, relative to fileRoot */
+	folder: string;
+	/** File that provides the content of the folder's page (index.md or README.md) */
+	indexFile?: string;
+	/** Files in this folder, relative to fileRoot */
+	files: string[];
+	/** Subfolders containing at least one matching file */
+	children: DirectoryNode[];
+}
+
+/**
+ * Turn a file or folder name into a page title, e.g. `getting-started.md` -> `Getting Started`
+ */
+export function titleFromName(name: string): string {
+	return path
+		.basename(name, path.extname(name))
+		.split(/[-_\s]+/)
+		.filter((word) => word.length > 0)
+		.map((word) => word[0].toUpperCase() + word.slice(1))
+		.join(" ");
+}
+
+/**
+ * Scan the source folder of a directory mapping
+ *
+ * Files are matched against the include/exclude globs relative to the source
+ * folder. Subfolders become child nodes; an index.md or README.md inside a
+ * subfolder provides the content of that subfolder's page.
+ *
+ * @param mapping - Directory mapping
+ * @param fileRoot - Base directory the source folder is relative to
+ * @returns Tree of folders, with file paths relative to fileRoot
+ */
+export async function scanDirectory(mapping: DirectoryMappingType, fileRoot: string): Promise<DirectoryNode> {
+	const include = mapping.include ?? DEFAULT_INCLUDE;
+	const exclude = mapping.exclude ?? [];
+	const sourceDir = path.resolve(fileRoot, mapping.source);
+
+	const scan = async (relativeDir: string, isRoot: boolean): Promise<DirectoryNode | null> => {
+		const entries = await readdir(path.join(sourceDir, relativeDir), { withFileTypes: true });
+		entries.sort((a, b) => a.name.localeCompare(b.name));
+
+		const node: DirectoryNode = {
+			name: path.basename(relativeDir),
+			folder: path.relative(fileRoot, path.join(sourceDir, relativeDir)),
+			files: [],
+			children: []
+		};
+
+		for (const entry of entries) {
+			const relativePath = path.posix.join(relativeDir.split(path.sep).join("/"), entry.name);
+
+			if (entry.isDirectory()) {
+				const child = await scan(path.join(relativeDir, entry.name), false);
+				if (child) {
+					node.children.push(child);
+				}
+			} else if (entry.isFile() && matchesAnyGlob(relativePath, include) && !matchesAnyGlob(relativePath, exclude)) {
+				const file = path.relative(fileRoot, path.join(sourceDir, relativePath));
+				if (!isRoot && !node.indexFile && INDEX_FILES.includes(entry.name.toLowerCase())) {
+					node.indexFile = file;
+				} else {
+					node.files.push(file);
+				}
+			}
+		}
+
+		if (!isRoot && !node.indexFile && node.files.length === 0 && node.children.length === 0) {
+			return null;
+		}
+		return node;
+	};
+
+	return (await scan("", true))!;
+}
+
+/**
+ * List the pages a directory mapping expands to, without their parents
+ *
+ * Used to resolve links between files before any of the pages exist.
+ */
+export function listDirectoryPages(node: DirectoryNode, mapping: DirectoryMappingType): SyncFilesOptions["page"][] {
+	const pages: SyncFilesOptions["page"][] = node.files.map((file) => ({
+		file,
+		title: titleFromName(file),
+		spaceKey: mapping.spaceKey
+	}));
+
+	for (const child of node.children) {
+		if (child.indexFile) {
+			pages.push({ file: child.indexFile, title: titleFromName(child.name), spaceKey: mapping.spaceKey });
+		}
+		pages.push(...listDirectoryPages(child, mapping));
+	}
+
+	return pages;
+}
+
+/**
+ * Find the titles a scanned directory gives to more than one file or folder
+ * @returns Each duplicate title with the files and folders that would get it, e.g. `"Setup" (a/setup.md, b/setup.md)`
+ */
+export function findDuplicateTitles(node: DirectoryNode): string[] {
+	const sources = new Map<string, string[]>();
+	const add = (title: string, source: string) => sources.set(title, [...(sources.get(title) ?? []), source]);
+
+	const collect = (node: DirectoryNode) => {
+		node.files.forEach((file) => add(titleFromName(file), file));
+		for (const child of node.children) {
+			add(titleFromName(child.name), child.indexFile ?? child.folder);
+			collect(child);
+		}
+	};
+	collect(node);
+
+	return [...sources]
+		.filter(([, files]) => files.length > 1)
+		.map(([title, files]) => `"${title}" (${files.join(", ")})`);
+}
+
+/**
+ * List the subfolders of a scanned directory, which are recorded as the source of their index pages
+ */
+export function listDirectoryFolders(node: DirectoryNode): string[] {
+	return node.children.flatMap((child) => [child.folder, ...listDirectoryFolders(child)]);
+}
+
+/**
+ * Sync a scanned directory as a page hierarchy below the mapping's root page
+ *
+ * Each subfolder gets a page titled after the folder. Its content comes from
+ * the folder's index file; folders without one get a page listing its children,
+ * created only when the parent page has no child with that title yet. When a
+ * folder's page can't be synced, the pages below it are reported as failed.
+ * Since titles are unique within a space, a directory giving several files or
+ * folders the same title fails as a whole before anything is synced.
+ *
+ * @param client - Confluence API client
+ * @param fileMap - Full configuration
+ * @param mapping - Directory mapping
+ * @param tree - Result of {@link scanDirectory}
+ * @param syncPage - Syncs a single page and reports failures as a failed result
+ * @param linkTargets - Pages that relative links may point at
+ */
+export async function syncDirectory(
+	client: ConfluenceApiClient,
+	fileMap: FileMappingType,
+	mapping: DirectoryMappingType,
+	tree: DirectoryNode,
+	syncPage: (options: SyncFilesOptions) => Promise<SyncResult>,
+	linkTargets?: SyncFilesOptions["page"][]
+): Promise<SyncResult[]> {
+	const logger = createLogger(core.getInput("debug") === "true", "DirectorySync");
+	const { spaceKey } = mapping;
+
+	const ensureFolderPage = async (node: DirectoryNode, parentId: string): Promise<SyncResult | string> => {
+		const title = titleFromName(node.name);
+
+		if (node.indexFile) {
+			return syncPage({ fileMap, page: { file: node.indexFile, title, spaceKey, parentId }, linkTargets, client });
+		}
+
+		// Only a page below the parent is the folder's page; any other page with the title belongs to someone else
+		const existing = await client.findPageByTitle(spaceKey, title);
+		if (existing && existing.ancestors?.at(-1)?.id === parentId) {
+			return existing.id;
+		}
+		if (existing) {
+			throw new ConfluenceTitleConflictError(
+				`A page titled "${title}" already exists in space ${spaceKey} (ID: ${existing.id}) outside of page ${parentId}. ` +
+					`Titles are unique within a space, so rename folder ${node.folder}.`
+			);
+		}
+
+		// Dry runs don't create anything; the pages below are only compared, so they need no parent ID
+		if (core.getInput("dry-run") === "true") {
+			logger.info(`Would create index page "${title}" for folder ${node.name} (dry run)`);
+			return "";
+		}
+
+		logger.info(`Creating index page "${title}" for folder ${node.name}`);
+		const created = await client.createPage({
+			type: "page",
+			title,
+			space: { key: spaceKey },
+			ancestors: [{ id: parentId }],
+			body: {
+				storage: {
+					value: INDEX_PAGE_BODY,
+					representation: "storage"
+				}
+			}
+		});
+		// Record the folder as the source, so the page is pruned when the folder is removed
+		await writeSyncState(
+			client,
+			created.id,
+			{
+				contentHash: hashPageContent(title, INDEX_PAGE_BODY),
+				version: created.version.number,
+				file: normalizeSourcePath(node.folder),
+				owner: getSyncOwner(fileMap)
+			},
+			null
+		);
+		return created.id;
+	};
+
+	const syncFolder = async (node: DirectoryNode, parentId: string): Promise<SyncResult[]> => {
+		const pending: Array<Promise<SyncResult[]>> = node.files.map(async (file) => [
+			await syncPage({
+				fileMap,
+				page: { file, title: titleFromName(file), spaceKey, parentId },
+				linkTargets,
+				client
+			})
+		]);
+
+		for (const child of node.children) {
+			pending.push(
+				(async () => {
+					let folderPage: SyncResult | string;
+					try {
+						folderPage = await ensureFolderPage(child, parentId);
+					} catch (error) {
+						folderPage = createFailedResult(
+							{ file: child.indexFile ?? child.name, title: titleFromName(child.name), spaceKey },
+							error
+						);
+					}
+
+					const results = typeof folderPage === "string" ? [] : [folderPage];
+					const folderPageId = typeof folderPage === "string" ? folderPage : folderPage.pageId;
+
+					if (typeof folderPage !== "string" && folderPage.status === "failed") {
+						const skipped = listDirectoryPages({ ...child, indexFile: undefined }, mapping);
+						results.push(
+							...skipped.map((page) =>
+								createFailedResult(page, new Error(`Parent page "${titleFromName(child.name)}" failed to sync`))
+							)
+						);
+						return results;
+					}
+
+					return [...results, ...(await syncFolder(child, folderPageId))];
+				})()
+			);
+		}
+
+		return (await Promise.all(pending)).flat();
+	};
+
+	const duplicates = findDuplicateTitles(tree);
+	if (duplicates.length > 0) {
+		const error = new Error(
+			`Directory ${mapping.source} gives several files or folders the same title: ${duplicates.join("; ")}. ` +
+				`Titles are unique within a space, so rename them.`
+		);
+		logger.error(error.message);
+		return listDirectoryPages(tree, mapping).map((page) => createFailedResult(page, error));
+	}
+
+	logger.info(`Syncing directory ${mapping.source} below page ${mapping.rootPageId}`);
+	return syncFolder(tree, mapping.rootPageId);
+}
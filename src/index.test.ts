@@ -1,5 +1,8 @@
-import { describe, it } from "node:test";
+import { describe, it, before, after, beforeEach, afterEach, mock } from "node:test";
 import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
 
 describe("index module", () => {
 	it("should export run function", async () => {
@@ -17,4 +20,111 @@ describe("index module", () => {
 		assert.equal(typeof run, "function", "run should be a function");
 		assert.equal(run.constructor.name, "AsyncFunction", "run should be async");
 	});
+
+	describe("run", () => {
+		const env = { ...process.env };
+		let tempDir: string;
+		// The job summary keeps the path it first wrote to, so every test shares one file
+		let summaryFile: string;
+
+		before(async () => {
+			summaryFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "index-summary-")), "summary.md");
+		});
+
+		after(async () => {
+			await fs.rm(path.dirname(summaryFile), { recursive: true, force: true });
+		});
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "index-test-"));
+			await fs.writeFile(path.join(tempDir, "a.md"), "# A");
+			await fs.writeFile(path.join(tempDir, "output"), "");
+			await fs.writeFile(summaryFile, "");
+			process.env.GITHUB_OUTPUT = path.join(tempDir, "output");
+			process.env.GITHUB_STEP_SUMMARY = summaryFile;
+			process.env["INPUT_FILE-MAPPINGS"] = JSON.stringify({
+				baseUrl: "https://fake-test-confluence.invalid/wiki",
+				user: "testuser",
+				pass: "testpass",
+				fileRoot: tempDir,
+				pages: [
+					{ pageId: "1", file: "a.md", title: "A" },
+					{ pageId: "2", file: "missing.md", title: "Missing" }
+				],
+				directories: [{ source: "removed", rootPageId: "100", spaceKey: "DEV" }]
+			});
+
+			mock.method(globalThis, "fetch", serve);
+		});
+
+		// Serve page 1 and accept every write
+		const serve = async (url: string, init: RequestInit = {}) => {
+			if ((init.method ?? "GET") !== "GET") {
+				return Response.json({ id: "1", title: "A", version: { number: 2 } });
+			}
+			if (url.includes("/property/")) {
+				return new Response("Not found", { status: 404, statusText: "Not Found" });
+			}
+			if (url.includes("/label")) {
+				return Response.json({ results: [], size: 0 });
+			}
+			return Response.json({
+				id: "1",
+				title: "A",
+				body: { storage: { value: "<p>old</p>", representation: "storage" } },
+				version: { number: 1 }
+			});
+		};
+
+		afterEach(async () => {
+			mock.restoreAll();
+			process.env = { ...env };
+			await fs.rm(tempDir, { recursive: true, force: true });
+		});
+
+		it("should try every page and report the failures in the outputs and the job summary", async () => {
+			const { run } = await import("./index.ts");
+
+			await assert.rejects(run(), /2 of 3 pages failed to sync/);
+
+			const output = await fs.readFile(path.join(tempDir, "output"), "utf-8");
+			const results = JSON.parse(/results<<(\S+)\n([^]*?)\n\1/.exec(output)![2]);
+			assert.deepEqual(
+				results.map((result: { file: string; status: string }) => `${result.file}: ${result.status}`),
+				["removed: failed", "a.md: updated", "missing.md: failed"]
+			);
+			assert.match(results[0].error, /^Directory removed could not be read: ENOENT/);
+
+			const summary = await fs.readFile(summaryFile, "utf-8");
+			assert.match(summary, /1 updated, 0 unchanged, 0 skipped, 2 failed/);
+		});
+
+		it("should request a single OAuth 2.0 token for all pages", async () => {
+			const { run } = await import("./index.ts");
+			await fs.writeFile(path.join(tempDir, "b.md"), "# B");
+			process.env["INPUT_FILE-MAPPINGS"] = JSON.stringify({
+				baseUrl: "https://fake-test-confluence.invalid/wiki",
+				authType: "oauth2",
+				oauth: { clientId: "id", clientSecret: "secret", tokenUrl: "https://fake-test-auth.invalid/oauth/token" },
+				fileRoot: tempDir,
+				pages: [
+					{ pageId: "1", file: "a.md", title: "A" },
+					{ pageId: "2", file: "b.md", title: "B" }
+				]
+			});
+			let tokenRequests = 0;
+			mock.restoreAll();
+			mock.method(globalThis, "fetch", async (url: string, init?: RequestInit) => {
+				if (url.endsWith("/oauth/token")) {
+					tokenRequests++;
+					return Response.json({ access_token: "token", expires_in: 3600 });
+				}
+				return serve(url, init);
+			});
+
+			await run();
+
+			assert.equal(tokenRequests, 1);
+		});
+	});
 });
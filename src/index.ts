@@ -1,24 +1,115 @@
 import * as core from "@actions/core";
-import { syncFiles } from "./syncFiles";
-import { FileMappingsSchema } from "./types";
-import { createLogger } from "./utils/logging";
+import { createConfluenceClient, createFailedResult, syncFiles } from "./syncFiles";
+import { listDirectoryFolders, listDirectoryPages, scanDirectory, syncDirectory } from "./directories";
+import { prunePages } from "./prune";
+import { formatTotals, listDriftedPages, setResultOutputs, STATUS_ICONS, writeJobSummary } from "./summary";
+import { FileMappingsSchema, SyncFilesOptions, SyncResult } from "./types";
+import { createLimiter } from "./utils/concurrency";
+import { resolvePageFrontMatter } from "./utils/front-matter";
+import { createLogger, Logger } from "./utils/logging";
+import { getSyncOwner } from "./utils/sync-state";
 
-export async function run(): Promise<void> {
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Log one line per page and the totals per status
+ */
+function logSummary(results: SyncResult[], logger: Logger): void {
+	logger.info("Sync summary:");
+	for (const result of results) {
+		const target = result.pageId ? `"${result.title}" (ID: ${result.pageId})` : `"${result.title}"`;
+		const error = result.error ? `: ${result.error}` : "";
+		logger.info(`  ${STATUS_ICONS[result.status]} ${result.status} ${result.file} -> ${target}${error}`);
+	}
+	logger.info(`Totals: ${formatTotals(results)}`);
+
+	const drifted = listDriftedPages(results);
+	if (drifted.length > 0) {
+		logger.warn("Pages edited in Confluence since the last sync:");
+		drifted.forEach((line) => logger.warn(`  ${line}`));
+	}
+}
+
+export async function run(): Promise<SyncResult[]> {
 	const debug = core.getInput("debug") === "true";
+	const dryRun = core.getInput("dry-run") === "true";
 
 	const filesInput = JSON.parse(core.getInput("file-mappings"));
 	const fileMaps = FileMappingsSchema.parse(filesInput);
 
 	const logger = createLogger(debug, "FileSyncConfluence");
-	logger.info(`Starting sync for ${fileMaps.pages.length} pages`);
 
-	await Promise.all(
-		fileMaps.pages.map(async (page) => {
-			await syncFiles({ fileMap: fileMaps, page });
-		})
+	// Expand directory mappings up front so links can point at any synced file. A directory that
+	// can't be read is reported as failed, and the other pages are still synced
+	const fileRoot = fileMaps.fileRoot || process.cwd();
+	const scanFailures: SyncResult[] = [];
+	const directories = (
+		await Promise.all(
+			(fileMaps.directories ?? []).map(async (mapping) => {
+				try {
+					return [{ mapping, tree: await scanDirectory(mapping, fileRoot) }];
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error);
+					scanFailures.push(
+						createFailedResult(
+							{ file: mapping.source, spaceKey: mapping.spaceKey },
+							new Error(`Directory ${mapping.source} could not be read: ${message}`)
+						)
+					);
+					return [];
+				}
+			})
+		)
+	).flat();
+	// Front matter may change the titles links are resolved to
+	const linkTargets = await Promise.all(
+		[...fileMaps.pages, ...directories.flatMap(({ mapping, tree }) => listDirectoryPages(tree, mapping))].map((page) =>
+			resolvePageFrontMatter(page, fileRoot)
+		)
 	);
 
-	logger.info("All pages synced successfully");
+	const concurrency = fileMaps.concurrency ?? DEFAULT_CONCURRENCY;
+	logger.info(`Starting ${dryRun ? "dry run" : "sync"} for ${linkTargets.length} pages (concurrency ${concurrency})`);
+
+	// One client serves the whole run, so its OAuth 2.0 token is shared by all pages
+	const client = createConfluenceClient(fileMaps);
+
+	// Sync every page, at most `concurrency` at a time, reporting failures instead of aborting the run
+	const limit = createLimiter(concurrency);
+	const syncPage = (options: SyncFilesOptions): Promise<SyncResult> =>
+		limit(() => syncFiles(options)).catch((error) => createFailedResult(options.page, error));
+
+	const results = [
+		...scanFailures,
+		...(
+			await Promise.all([
+				...fileMaps.pages.map(async (page) => [await syncPage({ fileMap: fileMaps, page, linkTargets, client })]),
+				...directories.map(({ mapping, tree }) => syncDirectory(client, fileMaps, mapping, tree, syncPage, linkTargets))
+			])
+		).flat()
+	];
+
+	logSummary(results, logger);
+	setResultOutputs(results);
+	await writeJobSummary(results, { dryRun });
+
+	const failed = results.filter((result) => result.status === "failed");
+	if (failed.length > 0) {
+		throw new Error(`${failed.length} of ${results.length} pages failed to sync`);
+	}
+
+	// Remove managed pages whose source file is no longer mapped (only reported in dry runs)
+	if (fileMaps.prune) {
+		await prunePages(
+			client,
+			fileMaps.prune,
+			[...linkTargets.map((page) => page.file), ...directories.flatMap(({ tree }) => listDirectoryFolders(tree))],
+			{ dryRun, owner: getSyncOwner(fileMaps) }
+		);
+	}
+
+	logger.info(dryRun ? "Dry run finished, no changes were made" : "All pages synced successfully");
+	return results;
 }
 // Execute the run function when the action is run
 if (process.env.GITHUB_ACTIONS === "true") {
@@ -1,9 +1,14 @@
 #!/usr/bin/env node
 import { readFileSync, existsSync } from "fs";
 import { resolve } from "path";
-import { syncFiles } from "./syncFiles";
-import { FileMappingsSchema } from "./types";
+import { createConfluenceClient, syncFiles } from "./syncFiles";
+import { listDirectoryFolders, listDirectoryPages, scanDirectory, syncDirectory } from "./directories";
+import { prunePages } from "./prune";
+import { pullPage } from "./pull";
+import { FileMappingsSchema, FileMappingType, SyncFilesOptions, SyncResult } from "./types";
+import { resolvePageFrontMatter } from "./utils/front-matter";
 import { createLogger } from "./utils/logging";
+import { getSyncOwner } from "./utils/sync-state";
 
 // Mock @actions/core for local development
 interface MockCore {
@@ -21,6 +26,7 @@ class LocalRunner {
 	private logger = createLogger(true, "LocalRunner");
 	private dryRun = false;
 	private validateOnly = false;
+	private pull = false;
 	private config: any = null;
 
 	constructor() {
@@ -38,9 +44,15 @@ class LocalRunner {
 			if (arg === "--dry-run") {
 				this.dryRun = true;
 				this.logger.info("🔍 Running in DRY-RUN mode - no changes will be made");
+			} else if (arg === "--strict") {
+				process.env.INPUT_STRICT = "true";
+				this.logger.info("🛑 Running in STRICT mode - invalid storage format fails the page");
 			} else if (arg === "--validate-only") {
 				this.validateOnly = true;
 				this.logger.info("✓ Running in VALIDATION mode - checking connections only");
+			} else if (arg === "--pull") {
+				this.pull = true;
+				this.logger.info("⬇️  Running in PULL mode - mapped Markdown files are refreshed from Confluence");
 			} else if (arg === "--config" && i + 1 < args.length) {
 				const configPath = resolve(args[i + 1]);
 				if (!existsSync(configPath)) {
@@ -179,11 +191,17 @@ Options:
   --config <path>     Load configuration from JSON file
   --dry-run          Preview changes without making them
   --validate-only    Only validate credentials and connectivity
+  --strict           Fail pages whose generated storage format is invalid
+  --pull             Write the Confluence pages back to their mapped Markdown files
   --help, -h         Show this help message
 
 Environment Variables:
   INPUT_FILE_MAPPINGS    JSON configuration (or use --config file)
   INPUT_DEBUG           Enable debug logging (true/false)
+  INPUT_STRICT          Fail pages with invalid storage format (true/false)
+  INPUT_CONFLUENCE_USER, INPUT_CONFLUENCE_PASS, INPUT_CONFLUENCE_PAT,
+  INPUT_OAUTH_CLIENT_ID, INPUT_OAUTH_CLIENT_SECRET
+                        Credentials (override the ones in the configuration)
 
 Configuration can be loaded from:
   1. Command line --config flag
@@ -197,6 +215,9 @@ Examples:
   # Using environment variable (dry run)
   INPUT_FILE_MAPPINGS='{"baseUrl":"..."}' tsx src/local-runner.ts --dry-run
 
+  # Refresh the mapped Markdown files from Confluence
+  tsx src/local-runner.ts --pull --config test-data/configs/update-test.json
+
   # Validate credentials only
   tsx src/local-runner.ts --validate-only --config test-data/configs/update-test.json
 `);
@@ -228,18 +249,75 @@ Examples:
 				return;
 			}
 
+			// Expand directory mappings so links can point at any synced file
+			const fileRoot = fileMaps.fileRoot || process.cwd();
+			const directories = await Promise.all(
+				(fileMaps.directories ?? []).map(async (mapping) => ({
+					mapping,
+					tree: await scanDirectory(mapping, fileRoot)
+				}))
+			);
+			// Front matter may change the titles links are resolved to
+			const linkTargets = await Promise.all(
+				[...fileMaps.pages, ...directories.flatMap(({ mapping, tree }) => listDirectoryPages(tree, mapping))].map(
+					(page) => resolvePageFrontMatter(page, fileRoot)
+				)
+			);
+
+			if (this.pull) {
+				await this.pullFiles(fileMaps, linkTargets);
+				return;
+			}
+
+			// One client serves the whole run, so its OAuth 2.0 token is shared by all pages
+			const client = await this.withMockCore(() => createConfluenceClient(fileMaps));
+
 			// Run the sync for each page
-			const results = await Promise.allSettled(
+			const results: PromiseSettledResult<unknown>[] = await Promise.allSettled(
 				fileMaps.pages.map(async (page) => {
-					this.logger.info(`\n📝 Processing: ${page.file} -> Page ${page.pageId}`);
+					this.logger.info(`\n📝 Processing: ${page.file} -> Page ${page.pageId ?? `"${page.title}"`}`);
 
 					if (this.dryRun) {
 						return this.dryRunSync({ fileMap: fileMaps, page });
 					} else {
-						return this.localSyncFiles({ fileMap: fileMaps, page });
+						return this.localSyncFiles({ fileMap: fileMaps, page, linkTargets, client });
 					}
 				})
 			);
+			const files = fileMaps.pages.map((page) => page.file);
+
+			// Sync each directory mapping as a page hierarchy
+			for (const { mapping, tree } of directories) {
+				this.logger.info(`\n📁 Processing directory: ${mapping.source} -> Page ${mapping.rootPageId}`);
+				files.push(mapping.source);
+
+				if (this.dryRun) {
+					for (const page of listDirectoryPages(tree, mapping)) {
+						this.logger.info(`  📄 ${page.file} -> "${page.title}"`);
+					}
+					results.push({ status: "fulfilled", value: undefined });
+				} else {
+					const [result] = await Promise.allSettled([
+						syncDirectory(client, fileMaps, mapping, tree, (options) => this.localSyncFiles(options), linkTargets)
+					]);
+					results.push(result);
+				}
+			}
+
+			// Remove managed pages whose source file is no longer mapped (only reported in dry-run)
+			if (fileMaps.prune) {
+				this.logger.info(`\n🧹 Checking for orphaned pages (policy: ${fileMaps.prune.policy})`);
+				files.push("prune");
+				const [result] = await Promise.allSettled([
+					prunePages(
+						client,
+						fileMaps.prune,
+						[...linkTargets.map((page) => page.file), ...directories.flatMap(({ tree }) => listDirectoryFolders(tree))],
+						{ dryRun: this.dryRun, owner: getSyncOwner(fileMaps) }
+					)
+				]);
+				results.push(result);
+			}
 
 			// Report results
 			const successful = results.filter((r) => r.status === "fulfilled").length;
@@ -251,7 +329,7 @@ Examples:
 				this.logger.error("❌ Some pages failed to sync:");
 				results.forEach((result, index) => {
 					if (result.status === "rejected") {
-						this.logger.error(`  - ${fileMaps.pages[index].file}: ${result.reason}`);
+						this.logger.error(`  - ${files[index]}: ${result.reason}`);
 					}
 				});
 				process.exit(1);
@@ -263,11 +341,45 @@ Examples:
 		}
 	}
 
-	private async localSyncFiles(options: any): Promise<void> {
-		// Create a version of syncFiles that uses our mock core
+	private async pullFiles(fileMaps: FileMappingType, linkTargets: SyncFilesOptions["page"][]): Promise<void> {
+		const client = createConfluenceClient(fileMaps);
+		const results = await Promise.allSettled(
+			linkTargets.map((page) => {
+				this.logger.info(`\n⬇️  Pulling: Page ${page.pageId ?? `"${page.title}"`} -> ${page.file}`);
+				return pullPage(client, fileMaps, page, { linkTargets, dryRun: this.dryRun });
+			})
+		);
+
+		const counts = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+		results.forEach((result, index) => {
+			if (result.status === "fulfilled") {
+				counts[result.value.status]++;
+			} else {
+				this.logger.error(`  - ${linkTargets[index].file}: ${result.reason}`);
+			}
+		});
+		const failed = results.filter((result) => result.status === "rejected").length;
+
+		this.logger.info(
+			`\n📊 Pull results: ${counts.created} created, ${counts.updated} updated, ${counts.unchanged} unchanged, ` +
+				`${counts.skipped} skipped, ${failed} failed`
+		);
+		if (failed > 0) {
+			process.exit(1);
+		}
+	}
+
+	private async localSyncFiles(options: SyncFilesOptions): Promise<SyncResult> {
+		return this.withMockCore(() => syncFiles(options));
+	}
+
+	/**
+	 * Run code that reads action inputs with the mock core in place of @actions/core
+	 */
+	private async withMockCore<T>(fn: () => T | Promise<T>): Promise<T> {
 		const originalCore = await import("@actions/core");
 
-		// Temporarily replace core methods for this sync
+		// Temporarily replace core methods
 		const originalGetInput = originalCore.getInput;
 		const originalSetOutput = originalCore.setOutput;
 
@@ -275,7 +387,7 @@ Examples:
 			(originalCore as any).getInput = this.mockCore.getInput.bind(this.mockCore);
 			(originalCore as any).setOutput = this.mockCore.setOutput.bind(this.mockCore);
 
-			await syncFiles(options);
+			return await fn();
 		} finally {
 			// Restore original methods
 			(originalCore as any).getInput = originalGetInput;
@@ -283,25 +395,19 @@ Examples:
 		}
 	}
 
-	private async validateConfiguration(fileMaps: any): Promise<void> {
-		const { ConfluenceApiClient } = await import("./confluence-api");
-
+	private async validateConfiguration(fileMaps: FileMappingType): Promise<void> {
 		this.logger.info("🔍 Validating Confluence connection...");
 
-		const client = new ConfluenceApiClient(
-			{
-				baseUrl: fileMaps.baseUrl,
-				user: fileMaps.user,
-				pass: fileMaps.pass
-			},
-			true
-		);
+		const client = createConfluenceClient(fileMaps);
 
 		// Test each page accessibility
 		for (const page of fileMaps.pages) {
 			try {
-				this.logger.info(`  📄 Checking page ${page.pageId}...`);
-				const existingPage = await client.getPage(page.pageId);
+				this.logger.info(`  📄 Checking page ${page.pageId ?? `"${page.title}"`}...`);
+				let existingPage = page.pageId ? await client.getPage(page.pageId) : null;
+				if (!existingPage && page.spaceKey && page.title) {
+					existingPage = await client.findPageByTitle(page.spaceKey, page.title);
+				}
 
 				if (existingPage) {
 					this.logger.info(`    ✅ Found: "${existingPage.title}"`);
@@ -325,7 +431,7 @@ Examples:
 					this.logger.error(`    ❌ Local file not found: ${page.file}`);
 				}
 			} catch (error) {
-				this.logger.error(`    ❌ Error checking page ${page.pageId}: ${error}`);
+				this.logger.error(`    ❌ Error checking page ${page.pageId ?? `"${page.title}"`}: ${error}`);
 			}
 		}
 	}
@@ -333,9 +439,13 @@ Examples:
 	private async dryRunSync(options: any): Promise<void> {
 		const fs = await import("fs/promises");
 		const path = await import("path");
-		const { convertToConfluenceStorage } = await import("./utils/confluence-converter");
+		const { convertToConfluenceStorage, detectContentType } = await import("./utils/confluence-converter");
+		const { detectCodeLanguage } = await import("./utils/confluence-code-parser");
+		const { formatStorageIssue, validateStorageFormat } = await import("./utils/storage-validation");
+		const { applyFrontMatter, parseFrontMatter } = await import("./utils/front-matter");
 
-		const { fileMap, page } = options;
+		const { fileMap } = options;
+		let { page } = options;
 
 		// Check if file exists
 		const filePath = path.resolve(fileMap.fileRoot || process.cwd(), page.file);
@@ -344,21 +454,35 @@ Examples:
 			const fileContent = await fs.readFile(filePath, "utf-8");
 
 			// Determine content type
-			const fileExtension = path.extname(page.file).toLowerCase();
-			let contentType: "markdown" | "html" | "plain" = "plain";
-			if (fileExtension === ".md" || fileExtension === ".markdown") {
-				contentType = "markdown";
-			} else if (fileExtension === ".html" || fileExtension === ".htm") {
-				contentType = "html";
+			const format = page.format ?? detectContentType(page.file);
+			const contentType = format === "noformat" ? "code" : format;
+
+			// Front matter of Markdown files overrides the page mapping and isn't rendered
+			let body = fileContent;
+			if (contentType === "markdown") {
+				const frontMatter = parseFrontMatter(fileContent, page.file);
+				page = applyFrontMatter(page, frontMatter.data);
+				body = frontMatter.body;
 			}
 
-			const confluenceContent = convertToConfluenceStorage(fileContent, contentType);
+			const confluenceContent = convertToConfluenceStorage(body, contentType, {
+				code: { language: page.language ?? detectCodeLanguage(page.file), noformat: format === "noformat" }
+			});
+			const storageIssues = validateStorageFormat(confluenceContent).map((issue) =>
+				formatStorageIssue(page.file, fileContent, confluenceContent, issue)
+			);
 
 			this.logger.info(`  📄 File: ${page.file} (${fileContent.length} chars)`);
-			this.logger.info(`  🎯 Target: Page ${page.pageId}`);
+			this.logger.info(`  🎯 Target: Page ${page.pageId ?? `"${page.title}" in space ${page.spaceKey}`}`);
 			this.logger.info(`  📝 Title: ${page.title || "untitled"}`);
 			this.logger.info(`  🔄 Content Type: ${contentType}`);
 			this.logger.info(`  📦 Confluence Content: ${confluenceContent.length} chars`);
+			for (const issue of storageIssues) {
+				this.logger.warn(`  ⚠️  Invalid storage format: ${issue}`);
+			}
+			if (storageIssues.length > 0 && process.env.INPUT_STRICT === "true") {
+				throw new Error(`Invalid storage format generated for ${page.file}`);
+			}
 
 			if (page.spaceKey) {
 				this.logger.info(`  🏢 Space: ${page.spaceKey}`);
@@ -366,6 +490,9 @@ Examples:
 			if (page.parentId) {
 				this.logger.info(`  👨‍👩‍👧‍👦 Parent: ${page.parentId}`);
 			}
+			if (page.labels?.length) {
+				this.logger.info(`  🏷️  Labels: ${page.labels.join(", ")}`);
+			}
 
 			this.logger.info(`  ✨ Would sync content (DRY-RUN)`);
 		} catch (error) {
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ConfluenceApiClient } from "./confluence-api.ts";
+import { buildPruneQuery, prunePages } from "./prune.ts";
+
+// Minimal client serving managed pages with their sync state (synced by acme/docs unless another owner is given) and recording removals
+const createClient = (files: Record<string, string | undefined>, owners: Record<string, string> = {}) => {
+	const removed: string[] = [];
+	const archived: string[] = [];
+	const client = {
+		searchContent: async (_cql: string, expand: string) =>
+			Object.keys(files).map((id) => ({
+				id,
+				title: `Page ${id}`,
+				metadata: {
+					properties:
+						files[id] && expand.includes("metadata.properties.happi-file-sync")
+							? {
+									"happi-file-sync": {
+										key: "happi-file-sync",
+										value: { contentHash: "x", version: 1, file: files[id], owner: owners[id] ?? "acme/docs" }
+									}
+								}
+							: {}
+				}
+			})),
+		archivePages: async (pageIds: string[]) => {
+			archived.push(...pageIds);
+		},
+		deletePage: async (pageId: string) => {
+			removed.push(pageId);
+		}
+	} as unknown as ConfluenceApiClient;
+	return { client, removed, archived };
+};
+
+describe("prune", () => {
+	describe("buildPruneQuery", () => {
+		it("should limit the query to managed pages in the configured scope", () => {
+			assert.equal(
+				buildPruneQuery({ policy: "report", spaceKey: "DEV", rootPageId: "42" }),
+				'type = page AND label = "happi-file-sync" AND space = "DEV" AND ancestor = 42'
+			);
+		});
+	});
+
+	describe("prunePages", () => {
+		const files = { "1": "docs/kept.md", "2": "docs/removed.md", "3": undefined };
+
+		it("should only report orphaned pages with the report policy", async () => {
+			const { client, removed, archived } = createClient(files);
+
+			const orphaned = await prunePages(client, { policy: "report", spaceKey: "DEV" }, ["./docs/kept.md"], {
+				owner: "acme/docs"
+			});
+
+			assert.deepEqual(
+				orphaned.map((page) => page.pageId),
+				["2"]
+			);
+			assert.deepEqual(removed, []);
+			assert.deepEqual(archived, []);
+		});
+
+		it("should archive orphaned pages", async () => {
+			const { client, archived } = createClient(files);
+
+			await prunePages(client, { policy: "archive", spaceKey: "DEV" }, ["docs/kept.md"], { owner: "acme/docs" });
+
+			assert.deepEqual(archived, ["2"]);
+		});
+
+		it("should delete orphaned pages", async () => {
+			const { client, removed } = createClient(files);
+
+			await prunePages(client, { policy: "delete", spaceKey: "DEV" }, ["docs/kept.md"], { owner: "acme/docs" });
+
+			assert.deepEqual(removed, ["2"]);
+		});
+
+		it("should leave the pages of other owners alone", async () => {
+			const { client, removed } = createClient({ ...files, "4": "docs/other.md" }, { "4": "acme/other" });
+
+			await prunePages(client, { policy: "delete", spaceKey: "DEV" }, ["docs/kept.md"], { owner: "acme/docs" });
+
+			assert.deepEqual(removed, ["2"]);
+		});
+
+		it("should not remove anything in dry-run", async () => {
+			const { client, removed } = createClient(files);
+
+			const orphaned = await prunePages(client, { policy: "delete", spaceKey: "DEV" }, ["docs/kept.md"], {
+				dryRun: true,
+				owner: "acme/docs"
+			});
+
+			assert.equal(orphaned.length, 1);
+			assert.deepEqual(removed, []);
+		});
+	});
+});
@@ -0,0 +1,118 @@
+import * as core from "@actions/core";
+import type { ConfluenceApiClient } from "./confluence-api";
+import type { PruneType } from "./types";
+import { createLogger } from "./utils/logging";
+import { MANAGED_LABEL, normalizeSourcePath, SYNC_STATE_PROPERTY, SyncState } from "./utils/sync-state";
+
+/**
+ * A managed page whose source file no longer matches any mapping
+ */
+export interface OrphanedPage {
+	pageId: string;
+	title: string;
+	file: string;
+}
+
+export interface PruneOptions {
+	/** Only report what would be removed */
+	dryRun?: boolean;
+	/** Owner recorded by the syncs of this configuration (the configured `owner` or the repository) */
+	owner?: string;
+}
+
+/**
+ * Build the CQL query selecting the managed pages in the prune scope
+ */
+export function buildPruneQuery(prune: PruneType): string {
+	const clauses = ["type = page", `label = "${MANAGED_LABEL}"`];
+	if (prune.spaceKey) {
+		clauses.push(`space = "${prune.spaceKey}"`);
+	}
+	if (prune.rootPageId) {
+		clauses.push(`ancestor = ${prune.rootPageId}`);
+	}
+	return clauses.join(" AND ");
+}
+
+/**
+ * Find managed pages whose recorded source file isn't in the mapped files
+ *
+ * Only pages synced by the same owner are considered, so the pages other
+ * repositories or configurations sync into the scope are left alone. Pages
+ * without a recorded source file are ignored, since there is no way to tell
+ * which file they came from.
+ *
+ * @param client - Confluence API client
+ * @param prune - Prune configuration
+ * @param mappedFiles - Files and folders of all current page and directory mappings
+ * @param owner - Owner recorded by the syncs of this configuration
+ */
+export async function findOrphanedPages(
+	client: ConfluenceApiClient,
+	prune: PruneType,
+	mappedFiles: string[],
+	owner?: string
+): Promise<OrphanedPage[]> {
+	const mapped = new Set(mappedFiles.map(normalizeSourcePath));
+	// The sync state comes with the search results instead of being read page by page
+	const candidates = await client.searchContent(
+		buildPruneQuery(prune),
+		`version,space,metadata.properties.${SYNC_STATE_PROPERTY}`
+	);
+	const orphaned: OrphanedPage[] = [];
+
+	for (const candidate of candidates) {
+		const state = candidate.metadata?.properties?.[SYNC_STATE_PROPERTY]?.value as SyncState | undefined;
+		const file = state?.file;
+		if (file && state.owner === owner && !mapped.has(file)) {
+			orphaned.push({ pageId: candidate.id, title: candidate.title, file });
+		}
+	}
+
+	return orphaned;
+}
+
+/**
+ * Archive, delete or report managed pages whose source file was removed
+ *
+ * @param client - Confluence API client
+ * @param prune - Prune configuration
+ * @param mappedFiles - Files and folders of all current page and directory mappings
+ * @param options - Prune options
+ * @returns The orphaned pages that were found
+ */
+export async function prunePages(
+	client: ConfluenceApiClient,
+	prune: PruneType,
+	mappedFiles: string[],
+	options: PruneOptions = {}
+): Promise<OrphanedPage[]> {
+	const logger = createLogger(core.getInput("debug") === "true", "Prune");
+	const orphaned = await findOrphanedPages(client, prune, mappedFiles, options.owner);
+
+	if (orphaned.length === 0) {
+		logger.info("No orphaned pages found");
+		return orphaned;
+	}
+
+	const { policy } = prune;
+	for (const page of orphaned) {
+		const prefix = options.dryRun && policy !== "report" ? `Would ${policy}` : "Orphaned";
+		logger.warn(`${prefix} page "${page.title}" (ID: ${page.pageId}), source file ${page.file} is no longer mapped`);
+	}
+
+	if (options.dryRun || policy === "report") {
+		return orphaned;
+	}
+
+	if (policy === "archive") {
+		await client.archivePages(orphaned.map((page) => page.pageId));
+	} else {
+		for (const page of orphaned) {
+			await client.deletePage(page.pageId);
+		}
+	}
+
+	logger.info(`${policy === "archive" ? "Archived" : "Deleted"} ${orphaned.length} orphaned pages`);
+	return orphaned;
+}
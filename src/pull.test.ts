@@ -0,0 +1,129 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import type { ConfluenceApiClient } from "./confluence-api.ts";
+import { createPageFileResolver, pullPage } from "./pull.ts";
+import type { FileMappingType } from "./types.ts";
+
+// Minimal client serving pages by ID, with the given attachments
+const createClient = (pages: Record<string, string>, attachments: Record<string, string> = {}) =>
+	({
+		getPage: async (pageId: string) =>
+			pages[pageId] === undefined
+				? null
+				: { id: pageId, title: `Page ${pageId}`, body: { storage: { value: pages[pageId] } } },
+		getAttachments: async () =>
+			Object.entries(attachments).map(([title, comment]) => ({ id: title, title, metadata: { comment } }))
+	}) as unknown as ConfluenceApiClient;
+
+describe("pull", () => {
+	let tempDir: string;
+	let fileMap: FileMappingType;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pull-test-"));
+		fileMap = {
+			baseUrl: "https://example.atlassian.net",
+			fileRoot: tempDir,
+			pages: [
+				{ pageId: "1", file: "docs/guide.md", title: "Guide" },
+				{ pageId: "2", file: "docs/setup/install.md", title: "Install" },
+				{ pageId: "3", file: "config.json" }
+			]
+		};
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	describe("createPageFileResolver", () => {
+		it("should resolve pages to paths relative to the linking file", () => {
+			const resolve = createPageFileResolver(fileMap.pages, "docs/guide.md");
+
+			assert.equal(resolve({ title: "Install", spaceKey: "DOC" }), "setup/install.md");
+			assert.equal(resolve({ pageId: "1" }), "guide.md");
+			assert.equal(resolve({ title: "Unknown" }), undefined);
+		});
+	});
+
+	describe("pullPage", () => {
+		it("should create missing files from the page", async () => {
+			const client = createClient({
+				"1": '<h1>Guide</h1><p>See <ac:link><ri:page ri:content-title="Install" /><ac:link-body>install</ac:link-body></ac:link></p>'
+			});
+
+			const result = await pullPage(client, fileMap, fileMap.pages[0]);
+
+			assert.deepEqual(result, { file: "docs/guide.md", pageId: "1", status: "created" });
+			assert.equal(
+				await fs.readFile(path.join(tempDir, "docs/guide.md"), "utf-8"),
+				"# Guide\n\nSee [install](setup/install.md)\n"
+			);
+		});
+
+		it("should point images at the files they were uploaded from", async () => {
+			const client = createClient(
+				{
+					"1":
+						'<p><ac:image ac:alt="d"><ri:attachment ri:filename="arch.png" /></ac:image> ' +
+						'<ac:image><ri:attachment ri:filename="other.png" /></ac:image></p>'
+				},
+				{ "arch.png": "Synced from ./img/arch.png (sha256:0a1b)", "other.png": "Uploaded by hand" }
+			);
+
+			await pullPage(client, fileMap, fileMap.pages[0]);
+
+			assert.equal(
+				await fs.readFile(path.join(tempDir, "docs/guide.md"), "utf-8"),
+				"![d](./img/arch.png) ![](other.png)\n"
+			);
+		});
+
+		it("should keep the front matter of existing files", async () => {
+			const client = createClient({ "1": "<p>New text</p>" });
+			await fs.mkdir(path.join(tempDir, "docs"), { recursive: true });
+			await fs.writeFile(path.join(tempDir, "docs/guide.md"), "---\ntitle: Guide\n---\nOld text\n");
+
+			const result = await pullPage(client, fileMap, fileMap.pages[0]);
+
+			assert.equal(result.status, "updated");
+			assert.equal(
+				await fs.readFile(path.join(tempDir, "docs/guide.md"), "utf-8"),
+				"---\ntitle: Guide\n---\nNew text\n"
+			);
+		});
+
+		it("should report files that are up to date", async () => {
+			const client = createClient({ "1": "<p>Same</p>" });
+			await fs.mkdir(path.join(tempDir, "docs"), { recursive: true });
+			await fs.writeFile(path.join(tempDir, "docs/guide.md"), "Same\n");
+
+			assert.equal((await pullPage(client, fileMap, fileMap.pages[0])).status, "unchanged");
+		});
+
+		it("should not write files in a dry run", async () => {
+			const client = createClient({ "1": "<p>Text</p>" });
+
+			const result = await pullPage(client, fileMap, fileMap.pages[0], { dryRun: true });
+
+			assert.equal(result.status, "created");
+			await assert.rejects(fs.access(path.join(tempDir, "docs/guide.md")));
+		});
+
+		it("should skip files that aren't Markdown", async () => {
+			const result = await pullPage(createClient({ "3": "<p>{}</p>" }), fileMap, fileMap.pages[2]);
+
+			assert.deepEqual(result, { file: "config.json", pageId: "3", status: "skipped" });
+		});
+
+		it("should fail for pages that don't exist", async () => {
+			await assert.rejects(
+				pullPage(createClient({}), fileMap, fileMap.pages[0]),
+				/Page 1 for docs\/guide\.md not found/
+			);
+		});
+	});
+});
@@ -0,0 +1,141 @@
+import * as core from "@actions/core";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import * as path from "path";
+import type { ConfluenceApiClient, ConfluencePage } from "./confluence-api";
+import type { FileMappingType, SyncFilesOptions } from "./types";
+import { readAttachmentSource } from "./utils/attachments";
+import { detectContentType } from "./utils/confluence-converter";
+import type { PageLinkTarget } from "./utils/confluence-markdown-parser";
+import { convertStorageToMarkdown } from "./utils/confluence-storage-parser";
+import { parseFrontMatter } from "./utils/front-matter";
+import { createLogger } from "./utils/logging";
+
+/**
+ * What pulling a page did to its file
+ */
+export type PullStatus = "created" | "updated" | "unchanged" | "skipped";
+
+export interface PullResult {
+	file: string;
+	pageId: string;
+	status: PullStatus;
+}
+
+export interface PullOptions {
+	/** Pages that page links may point at (defaults to `fileMap.pages`) */
+	linkTargets?: SyncFilesOptions["page"][];
+	/** Only report which files would change */
+	dryRun?: boolean;
+}
+
+/**
+ * Create a resolver turning page links back into relative links between mapped files
+ *
+ * Links match a page by ID, or else by title within the same space.
+ *
+ * @param pages - All page mappings of the current configuration
+ * @param file - Mapped file containing the links
+ */
+export function createPageFileResolver(
+	pages: SyncFilesOptions["page"][],
+	file: string
+): (page: PageLinkTarget) => string | undefined {
+	return (target: PageLinkTarget) => {
+		const page = pages.find(
+			(page) =>
+				(target.pageId && page.pageId === target.pageId) ||
+				(target.title &&
+					page.title === target.title &&
+					(!target.spaceKey || !page.spaceKey || page.spaceKey === target.spaceKey))
+		);
+		if (!page) {
+			return undefined;
+		}
+		return path.relative(path.dirname(file), page.file).split(path.sep).join("/");
+	};
+}
+
+/**
+ * Write the content of a page on Confluence to its mapped Markdown file
+ *
+ * The page is converted back to Markdown, without the prefix and banner and
+ * with images pointing at the files they were uploaded from. Front matter of an
+ * existing file is kept and the file is only written when its content changes.
+ * Pages of files in other formats are skipped, since only Markdown can be
+ * converted back.
+ *
+ * @param client - Confluence API client
+ * @param fileMap - Configuration the page belongs to
+ * @param page - Page mapping, with front matter applied
+ * @param options - Pull options
+ * @throws Error when the page doesn't exist
+ */
+export async function pullPage(
+	client: ConfluenceApiClient,
+	fileMap: FileMappingType,
+	page: SyncFilesOptions["page"],
+	options: PullOptions = {}
+): Promise<PullResult> {
+	const logger = createLogger(core.getInput("debug") === "true", "Pull");
+	const format = page.format ?? detectContentType(page.file);
+	if (format !== "markdown") {
+		logger.info(`Skipping ${page.file}: only Markdown files can be pulled (format: ${format})`);
+		return { file: page.file, pageId: page.pageId ?? "", status: "skipped" };
+	}
+
+	let existingPage: ConfluencePage | null = page.pageId ? await client.getPage(page.pageId) : null;
+	if (!existingPage && page.spaceKey && page.title) {
+		existingPage = await client.findPageByTitle(page.spaceKey, page.title);
+	}
+	if (!existingPage) {
+		throw new Error(`Page ${page.pageId ?? `"${page.title}"`} for ${page.file} not found`);
+	}
+
+	// Point images and attachment links back at the files they were uploaded from
+	const storage = existingPage.body.storage.value;
+	const attachmentSources = new Map<string, string>();
+	if (storage.includes("<ri:attachment")) {
+		for (const attachment of await client.getAttachments(existingPage.id)) {
+			const source = readAttachmentSource(attachment);
+			if (source) {
+				attachmentSources.set(attachment.title, source);
+			}
+		}
+	}
+
+	const markdown = convertStorageToMarkdown(storage, {
+		resolvePageLink: createPageFileResolver(options.linkTargets ?? fileMap.pages, page.file),
+		resolveAttachment: (filename) => attachmentSources.get(filename) ?? filename,
+		diagrams: Object.fromEntries(
+			Object.entries(fileMap.diagrams ?? {}).map(([language, diagram]) => [language.toLowerCase(), diagram])
+		)
+	});
+
+	// Keep the front matter of the existing file, which Confluence doesn't know about
+	const filePath = path.resolve(fileMap.fileRoot || process.cwd(), page.file);
+	const current = await readFile(filePath, "utf-8").catch(() => undefined);
+	const frontMatter =
+		current === undefined ? "" : current.slice(0, current.length - parseFrontMatter(current, page.file).body.length);
+	const content = frontMatter + markdown;
+
+	const result: PullResult = {
+		file: page.file,
+		pageId: existingPage.id,
+		status: current === undefined ? "created" : current === content ? "unchanged" : "updated"
+	};
+	if (result.status === "unchanged") {
+		logger.info(`${page.file} is up to date with page "${existingPage.title}"`);
+		return result;
+	}
+	if (options.dryRun) {
+		logger.info(
+			`Would ${result.status === "created" ? "create" : "update"} ${page.file} from page "${existingPage.title}"`
+		);
+		return result;
+	}
+
+	await mkdir(path.dirname(filePath), { recursive: true });
+	await writeFile(filePath, content, "utf-8");
+	logger.info(`${result.status === "created" ? "Created" : "Updated"} ${page.file} from page "${existingPage.title}"`);
+	return result;
+}
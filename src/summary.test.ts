@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildSummaryTable, formatDiffDetails, formatTotals, listDriftedPages } from "./summary.ts";
+import type { SyncResult } from "./types.ts";
+
+const results: SyncResult[] = [
+	{
+		file: "docs/a.md",
+		pageId: "1",
+		title: "A & B",
+		url: "https://example.atlassian.net/wiki/spaces/DEV/pages/1",
+		status: "updated"
+	},
+	{ file: "docs/b.md", pageId: "", title: "B", status: "failed", error: "Confluence said <no>" }
+];
+
+describe("summary", () => {
+	it("should count results per status", () => {
+		assert.equal(formatTotals(results), "0 created, 1 updated, 0 unchanged, 0 skipped, 1 failed");
+	});
+
+	it("should build one table row per page after the header", () => {
+		const table = buildSummaryTable(results);
+
+		assert.equal(table.length, 3);
+		assert.deepEqual(table[1], [
+			"✅ updated",
+			"<code>docs/a.md</code>",
+			'<a href="https://example.atlassian.net/wiki/spaces/DEV/pages/1">A &amp; B</a>',
+			""
+		]);
+	});
+
+	it("should escape errors and leave pages without URL unlinked", () => {
+		const [, , row] = buildSummaryTable(results);
+
+		assert.equal(row[2], "B");
+		assert.equal(row[3], "Confluence said &lt;no&gt;");
+	});
+
+	it("should list the pages edited in Confluence", () => {
+		const drifted: SyncResult = {
+			file: "docs/c.md",
+			pageId: "3",
+			title: "C",
+			status: "skipped",
+			drift: { version: 9, syncedVersion: 7, editedBy: "Jane Doe" }
+		};
+
+		assert.deepEqual(listDriftedPages([...results, drifted]), [
+			'docs/c.md -> "C" edited by Jane Doe (version 9, last synced version 7), skipped'
+		]);
+	});
+
+	it("should render a diff as a collapsed block with a fence longer than its backticks", () => {
+		const details = formatDiffDetails({
+			file: "docs/<a>.md",
+			pageId: "1",
+			title: "A",
+			status: "updated",
+			diff: "--- a\n+++ b\n-<p>```old```</p>\n+<p>new</p>\n"
+		});
+
+		assert.equal(
+			details,
+			"<details><summary>✅ docs/&lt;a&gt;.md</summary>\n\n````diff\n--- a\n+++ b\n-<p>```old```</p>\n+<p>new</p>\n````\n\n</details>"
+		);
+	});
+});
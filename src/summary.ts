@@ -0,0 +1,134 @@
+import * as core from "@actions/core";
+import type { SummaryTableRow } from "@actions/core/lib/summary";
+import type { SyncResult, SyncStatus } from "./types";
+import { describeDrift } from "./utils/drift";
+import { escapeXml } from "./utils/xml";
+
+export const STATUS_ICONS: Record<SyncStatus, string> = {
+	created: "🆕",
+	updated: "✅",
+	unchanged: "⏸️",
+	skipped: "⏭️",
+	failed: "❌"
+};
+
+/**
+ * Count the results per status, e.g. `1 created, 2 updated, 0 unchanged, 0 skipped, 0 failed`
+ */
+export function formatTotals(results: SyncResult[]): string {
+	return (Object.keys(STATUS_ICONS) as SyncStatus[])
+		.map((status) => `${results.filter((result) => result.status === status).length} ${status}`)
+		.join(", ");
+}
+
+/**
+ * List the pages edited in Confluence since the last sync, e.g.
+ * `docs/a.md -> "A" edited by Jane Doe (version 9, last synced version 7), skipped`
+ */
+export function listDriftedPages(results: SyncResult[]): string[] {
+	return results
+		.filter((result) => result.drift)
+		.map((result) => `${result.file} -> "${result.title}" ${describeDrift(result.drift!)}, ${result.status}`);
+}
+
+/**
+ * Set the action outputs for a finished run
+ *
+ * `results` holds every page's result as JSON. The single-page outputs
+ * (`page-id`, `page-title`, `file-path`) are only set when exactly one page
+ * was synced, since they can't describe several pages.
+ */
+export function setResultOutputs(results: SyncResult[]): void {
+	const failed = results.filter((result) => result.status === "failed");
+
+	core.setOutput("results", JSON.stringify(results));
+	core.setOutput("status", failed.length > 0 ? "failed" : "success");
+
+	if (results.length === 1) {
+		const [result] = results;
+		core.setOutput("page-id", result.pageId);
+		core.setOutput("page-title", result.title);
+		core.setOutput("file-path", result.file);
+	}
+	if (failed.length > 0) {
+		core.setOutput("error", failed.map((result) => `${result.file}: ${result.error}`).join("\n"));
+	}
+}
+
+/**
+ * Build the rows of the job summary table, linking each page when its URL is known
+ */
+export function buildSummaryTable(results: SyncResult[]): SummaryTableRow[] {
+	const header = [
+		{ data: "Status", header: true },
+		{ data: "File", header: true },
+		{ data: "Page", header: true },
+		{ data: "Error", header: true }
+	];
+
+	const rows = results.map((result) => {
+		const title = escapeXml(result.title || result.pageId || "-");
+		const page = result.url ? `<a href="${escapeXml(result.url)}">${title}</a>` : title;
+		return [
+			`${STATUS_ICONS[result.status]} ${result.status}`,
+			`<code>${escapeXml(result.file)}</code>`,
+			page,
+			result.error ? escapeXml(result.error) : ""
+		];
+	});
+
+	return [header, ...rows];
+}
+
+/**
+ * Longest diff shown per page, in lines, keeping the job summary below its 1 MiB limit
+ */
+const MAX_DIFF_LINES = 500;
+
+/**
+ * Render a page's diff as a collapsed Markdown `diff` block, shortened to {@link MAX_DIFF_LINES}
+ */
+export function formatDiffDetails(result: SyncResult): string {
+	const lines = (result.diff ?? "").trimEnd().split("\n");
+	const shown = lines.slice(0, MAX_DIFF_LINES);
+	if (lines.length > MAX_DIFF_LINES) {
+		shown.push(`... ${lines.length - MAX_DIFF_LINES} more lines`);
+	}
+
+	// The fence must be longer than any run of backticks in the diff
+	const longestRun = Math.max(0, ...(result.diff?.match(/`+/g) ?? []).map((run) => run.length));
+	const fence = "`".repeat(Math.max(3, longestRun + 1));
+	const label = `${STATUS_ICONS[result.status]} ${escapeXml(result.file)}`;
+
+	return `<details><summary>${label}</summary>\n\n${fence}diff\n${shown.join("\n")}\n${fence}\n\n</details>`;
+}
+
+/**
+ * Write a table of the results to the GitHub job summary
+ *
+ * Dry runs add the diff of each page that would change. Does nothing outside
+ * of GitHub Actions, where no summary file is available.
+ */
+export async function writeJobSummary(results: SyncResult[], options: { dryRun?: boolean } = {}): Promise<void> {
+	if (!process.env.GITHUB_STEP_SUMMARY) {
+		return;
+	}
+
+	core.summary
+		.addHeading(options.dryRun ? "Confluence sync (dry run)" : "Confluence sync", 2)
+		.addRaw(`<p>${formatTotals(results)}</p>`, true)
+		.addTable(buildSummaryTable(results));
+
+	const drifted = listDriftedPages(results);
+	if (drifted.length > 0) {
+		core.summary.addHeading("Edited in Confluence since the last sync", 3).addList(drifted.map(escapeXml));
+	}
+
+	const changed = results.filter((result) => result.diff);
+	if (changed.length > 0) {
+		core.summary.addHeading("Changes", 3);
+		changed.forEach((result) => core.summary.addRaw(formatDiffDetails(result), true));
+	}
+
+	await core.summary.write();
+}
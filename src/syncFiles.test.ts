@@ -1,4 +1,4 @@
-import { describe, it, beforeEach } from "node:test";
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
 import assert from "node:assert/strict";
 import * as fs from "fs/promises";
 import * as path from "path";
@@ -151,4 +151,444 @@ describe("syncFiles", () => {
 			throw error;
 		}
 	});
+
+	describe("change detection", () => {
+		let requests: Array<{ method: string; url: string; body?: string }>;
+
+		// Serve a single existing page and record every request made
+		const mockConfluence = (
+			storageValue: string,
+			syncState?: { contentHash: string; version: number; owner?: string }
+		) => {
+			requests = [];
+			mock.method(globalThis, "fetch", async (url: string, init: RequestInit = {}) => {
+				const method = init.method || "GET";
+				requests.push({ method, url, body: typeof init.body === "string" ? init.body : undefined });
+
+				if (method === "GET" && url.includes("/property/")) {
+					return syncState
+						? Response.json({ key: "happi-file-sync", value: syncState, version: { number: 1 } })
+						: new Response("Not found", { status: 404, statusText: "Not Found" });
+				}
+				if (method === "GET" && url.includes("/label")) {
+					return Response.json({ results: [], size: 0 });
+				}
+				const page = {
+					id: "123456",
+					type: "page",
+					status: "current",
+					title: "Test Page",
+					body: { storage: { value: storageValue, representation: "storage" } },
+					version: { number: 7 },
+					ancestors: [{ id: "100" }, { id: "200" }]
+				};
+				if (method === "GET" && url.includes("/content?")) {
+					// Any other title looked up belongs to another page
+					const title = new URL(url).searchParams.get("title");
+					return Response.json({ results: [title === page.title ? page : { id: "999", title }] });
+				}
+				if (method === "GET" && url.includes("/content/placeholder?")) {
+					return new Response("Not found", { status: 404, statusText: "Not Found" });
+				}
+				if (method === "GET") {
+					return Response.json(page);
+				}
+				return Response.json({ id: "123456", title: "Test Page", version: { number: 8 } });
+			});
+		};
+
+		// Run a sync against a stale page and return the body that was published
+		const publishedBody = async (options: SyncFilesOptions): Promise<string> => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			mockConfluence("<p>old content</p>");
+			await syncFiles(options);
+			mock.restoreAll();
+
+			const update = requests.find((request) => request.method === "PUT" && request.url.endsWith("/content/123456"));
+			return JSON.parse(update!.body!).body.storage.value;
+		};
+
+		const createOptions = (): SyncFilesOptions => ({
+			fileMap: {
+				baseUrl: "https://fake-test-confluence.invalid/wiki",
+				user: "testuser",
+				pass: "testpass",
+				fileRoot: tempDir,
+				pages: []
+			},
+			page: { pageId: "123456", file: "test.md", title: "Test Page" }
+		});
+
+		afterEach(async () => {
+			mock.restoreAll();
+			await fs.rm(tempDir, { recursive: true, force: true });
+		});
+
+		it("should update the page when the content changed", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			mockConfluence("<p>old content</p>");
+
+			const result = await syncFiles(createOptions());
+
+			assert.equal(result.status, "updated");
+			assert.ok(requests.some((request) => request.method === "PUT" && request.url.endsWith("/content/123456")));
+		});
+
+		it("should locate pages without a page ID by space and title", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const options = createOptions();
+			options.fileMap.owner = "acme/docs";
+			mockConfluence("<p>old content</p>", { contentHash: "previous", version: 7, owner: "acme/docs" });
+
+			for (const pageId of [undefined, "placeholder"]) {
+				requests = [];
+				const result = await syncFiles({ ...options, page: { ...options.page, pageId, spaceKey: "DEV" } });
+
+				assert.equal(result.status, "updated");
+				assert.ok(requests.some((request) => request.url.includes("/content?")));
+				assert.ok(requests.some((request) => request.method === "PUT" && request.url.endsWith("/content/123456")));
+				assert.ok(!requests.some((request) => request.method === "POST" && request.url.endsWith("/content")));
+			}
+		});
+
+		it("should only take over pages found by title below the parent or synced by this configuration", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const { ConfluenceTitleConflictError } = await import("./confluence-errors.ts");
+			const options = createOptions();
+			options.fileMap.owner = "acme/docs";
+			const page = { ...options.page, pageId: undefined, spaceKey: "DEV", parentId: "10" };
+
+			mockConfluence("<p>old content</p>");
+			await assert.rejects(syncFiles({ ...options, page }), ConfluenceTitleConflictError);
+			assert.ok(!requests.some((request) => request.method !== "GET"), "should not change the page");
+
+			mockConfluence("<p>old content</p>", { contentHash: "previous", version: 7, owner: "someone/else" });
+			await assert.rejects(syncFiles({ ...options, page }), ConfluenceTitleConflictError);
+
+			mockConfluence("<p>old content</p>", { contentHash: "previous", version: 7, owner: "acme/docs" });
+			const moved = await syncFiles({ ...options, page });
+			const update = requests.find((request) => request.method === "PUT" && request.url.endsWith("/content/123456"));
+			assert.equal(moved.status, "updated");
+			assert.deepEqual(JSON.parse(update!.body!).ancestors, [{ id: "10" }]);
+
+			mockConfluence("<p>old content</p>");
+			const belowParent = await syncFiles({ ...options, page: { ...page, parentId: "200" } });
+			assert.equal(belowParent.status, "updated");
+		});
+
+		it("should not take over a page found by title that this configuration didn't sync", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			mockConfluence("<p>old content</p>");
+			const options = createOptions();
+
+			await assert.rejects(syncFiles({ ...options, page: { ...options.page, pageId: undefined, spaceKey: "DEV" } }), {
+				name: "ConfluenceTitleConflictError",
+				message: /A page titled "Test Page" already exists in space DEV \(ID: 123456\)\. .* map it to that page\./
+			});
+			assert.ok(!requests.some((request) => request.method !== "GET"), "should not change the page");
+		});
+
+		it("should set the version message and minor edit flag of the update", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			mockConfluence("<p>old content</p>");
+			const options = createOptions();
+			options.fileMap.versionMessage = "Synced {file}";
+			options.fileMap.minorEdit = false;
+			options.page.minorEdit = true;
+
+			await syncFiles(options);
+
+			const update = requests.find((request) => request.method === "PUT" && request.url.endsWith("/content/123456"));
+			assert.deepEqual(JSON.parse(update!.body!).version, { number: 8, message: "Synced test.md", minorEdit: true });
+		});
+
+		it("should move the page when the configured parent changed", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const body = await publishedBody(createOptions());
+			mockConfluence(body);
+			const options = createOptions();
+			options.page.parentId = "100";
+
+			const result = await syncFiles(options);
+
+			const update = requests.find((request) => request.method === "PUT" && request.url.endsWith("/content/123456"));
+			assert.equal(result.status, "updated");
+			assert.deepEqual(JSON.parse(update!.body!).ancestors, [{ id: "100" }]);
+		});
+
+		it("should not move the page when it is below the configured parent", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const body = await publishedBody(createOptions());
+			mockConfluence(body);
+			const options = createOptions();
+			options.page.parentId = "200";
+
+			const result = await syncFiles(options);
+
+			assert.equal(result.status, "unchanged");
+		});
+
+		it("should fail with a clear error when another page has the new title", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			mockConfluence("<p>old content</p>");
+			const options = createOptions();
+			options.page.title = "Renamed";
+			options.page.spaceKey = "DOC";
+
+			await assert.rejects(syncFiles(options), /A page titled "Renamed" already exists in space DOC \(ID: 999\)/);
+			assert.ok(!requests.some((request) => request.method === "PUT"), "should not update the page");
+		});
+
+		it("should skip the update when the page body matches the rendered content", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const body = await publishedBody(createOptions());
+			mockConfluence(body);
+
+			const result = await syncFiles(createOptions());
+
+			assert.equal(result.status, "unchanged");
+			assert.ok(!requests.some((request) => request.method === "PUT"), "should not update the page");
+		});
+
+		it("should skip the update when the stored hash matches the current version", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const { hashPageContent } = await import("./utils/sync-state.ts");
+			const body = await publishedBody(createOptions());
+			mockConfluence("<p>normalized by confluence</p>", {
+				contentHash: hashPageContent("Test Page", body),
+				version: 7
+			});
+
+			const result = await syncFiles(createOptions());
+
+			assert.equal(result.status, "unchanged");
+			assert.ok(!requests.some((request) => request.method === "PUT"), "should not update the page");
+		});
+
+		it("should update the page when it was edited after the last sync", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const { hashPageContent } = await import("./utils/sync-state.ts");
+			const body = await publishedBody(createOptions());
+			mockConfluence("<p>edited in confluence</p>", {
+				contentHash: hashPageContent("Test Page", body),
+				version: 6
+			});
+
+			const result = await syncFiles(createOptions());
+
+			assert.equal(result.status, "updated");
+		});
+
+		it("should skip or fail pages edited after the last sync as the drift policy says", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const options = createOptions();
+			options.fileMap.labels = ["docs"];
+			await fs.writeFile(path.join(tempDir, "diagram.png"), "png");
+			await fs.writeFile(testFilePath, "# Test Markdown\n\n![Diagram](diagram.png)\n", "utf8");
+			// Neither the page nor its attachments and labels may change
+			const untouched = () =>
+				!requests.some(
+					(request) =>
+						request.method !== "GET" || request.url.includes("/label") || request.url.includes("/child/attachment")
+				);
+
+			options.fileMap.drift = "skip";
+			mockConfluence("<p>edited in confluence</p>", { contentHash: "previous", version: 6 });
+			const skipped = await syncFiles(options);
+
+			assert.equal(skipped.status, "skipped");
+			assert.deepEqual(skipped.drift, { version: 7, syncedVersion: 6, editedBy: undefined, editedAt: undefined });
+			assert.ok(untouched(), "should not change the page");
+
+			options.fileMap.drift = "fail";
+			mockConfluence("<p>edited in confluence</p>", { contentHash: "previous", version: 6 });
+			await assert.rejects(syncFiles(options), {
+				name: "PageDriftError",
+				message: 'Page "Test Page" was edited (version 7, last synced version 6). Not overwriting the edits.'
+			});
+			assert.ok(untouched(), "should not change the page");
+		});
+
+		it("should not count a changed sync timestamp in the banner as a change", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const options = createOptions();
+			options.fileMap.banner = { position: "bottom", text: "Last synced at {timestamp}" };
+			options.fileMap.prefix = "Do not edit";
+
+			mock.timers.enable({ apis: ["Date"], now: new Date("2024-05-01T12:00:00Z") });
+			const body = await publishedBody(options);
+			const stored = requests.find((request) => request.method === "POST" && request.url.endsWith("/property"));
+			assert.match(body, /^<p><ac:structured-macro[^]*?Do not edit<\/p><h1/, "should put the prefix first");
+			assert.ok(body.endsWith("</ac:structured-macro></p>"), "should put the banner last");
+			assert.ok(body.includes("Last synced at 2024-05-01 12:00 UTC"));
+
+			mock.timers.setTime(new Date("2024-05-02T12:00:00Z").getTime());
+			mockConfluence(body, { contentHash: JSON.parse(stored!.body!).value.contentHash, version: 7 });
+			const result = await syncFiles(options);
+			mock.timers.reset();
+
+			assert.equal(result.status, "unchanged");
+		});
+
+		it("should not count a new commit linked from the default banner as a change", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const env = { ...process.env };
+			process.env.GITHUB_REPOSITORY = "acme/docs";
+			process.env.GITHUB_REF_NAME = "main";
+
+			try {
+				process.env.GITHUB_SHA = "1111111aaaaaaa";
+				process.env.GITHUB_RUN_ID = "1";
+				const body = await publishedBody(createOptions());
+				const stored = requests.find((request) => request.method === "POST" && request.url.endsWith("/property"));
+				assert.ok(body.includes("/acme/docs/blob/1111111aaaaaaa/test.md"), "should link to the commit");
+				assert.equal(JSON.parse(stored!.body!).value.owner, "acme/docs", "should record the repository as owner");
+
+				process.env.GITHUB_SHA = "2222222bbbbbbb";
+				process.env.GITHUB_RUN_ID = "2";
+				mockConfluence(body, { ...JSON.parse(stored!.body!).value, version: 7 });
+				const result = await syncFiles(createOptions());
+
+				assert.equal(result.status, "unchanged");
+				assert.ok(!requests.some((request) => request.method === "PUT"), "should not update the page");
+			} finally {
+				process.env = env;
+			}
+		});
+
+		it("should not count the commit and run placeholders of a banner as a change", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const env = { ...process.env };
+			const options = createOptions();
+			options.fileMap.banner = { text: "Synced {sha} ({subject}) by {runUrl} from {fileUrl}" };
+			options.fileMap.prefix = "Run {runUrl}";
+			process.env.GITHUB_REPOSITORY = "acme/docs";
+			const eventPath = path.join(tempDir, "event.json");
+			process.env.GITHUB_EVENT_PATH = eventPath;
+
+			try {
+				process.env.GITHUB_SHA = "1111111aaaaaaa";
+				process.env.GITHUB_RUN_ID = "1";
+				await fs.writeFile(eventPath, JSON.stringify({ head_commit: { message: "First" } }));
+				const body = await publishedBody(options);
+				const stored = requests.find((request) => request.method === "POST" && request.url.endsWith("/property"));
+				assert.ok(body.includes("Synced 1111111 (First)"));
+
+				process.env.GITHUB_SHA = "2222222bbbbbbb";
+				process.env.GITHUB_RUN_ID = "2";
+				await fs.writeFile(eventPath, JSON.stringify({ head_commit: { message: "Second" } }));
+				mockConfluence(body, { ...JSON.parse(stored!.body!).value, version: 7 });
+				const result = await syncFiles(options);
+
+				assert.equal(result.status, "unchanged");
+			} finally {
+				process.env = env;
+			}
+		});
+
+		it("should keep editable regions edited in Confluence", async () => {
+			await fs.writeFile(
+				testFilePath,
+				"# Changed\n\n<!-- editable:start status -->\nTo be decided\n<!-- editable:end status -->\n",
+				"utf8"
+			);
+			const first = await publishedBody(createOptions());
+			const edited = first.replace("<p>To be decided</p>", "<p>Approved by <strong>Product</strong></p>");
+
+			const { syncFiles } = await import("./syncFiles.ts");
+			await fs.writeFile(
+				testFilePath,
+				"# Changed again\n\n<!-- editable:start status -->\nTo be decided\n<!-- editable:end status -->\n",
+				"utf8"
+			);
+			mockConfluence(edited);
+			await syncFiles(createOptions());
+
+			const update = requests.find((request) => request.method === "PUT" && request.url.endsWith("/content/123456"));
+			const body: string = JSON.parse(update!.body!).body.storage.value;
+			assert.ok(body.includes("Changed again"), "should update the content outside the region");
+			assert.ok(body.includes("<p>Approved by <strong>Product</strong></p>"), "should keep the edited region");
+			assert.ok(!body.includes("To be decided"));
+		});
+
+		it("should apply front matter and leave it out of the page body", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			await fs.writeFile(
+				testFilePath,
+				"---\ntitle: From Front Matter\nbanner: false\nlabels: [guide]\n---\n# Test Markdown\n",
+				"utf8"
+			);
+			mockConfluence("<p>old content</p>");
+
+			await syncFiles(createOptions());
+
+			const update = requests.find((request) => request.method === "PUT" && request.url.endsWith("/content/123456"));
+			const data = JSON.parse(update!.body!);
+			assert.equal(data.title, "From Front Matter");
+			assert.ok(!data.body.storage.value.includes("title:"), "should strip the front matter");
+			assert.ok(data.body.storage.value.startsWith("<h1"), "should leave out the banner");
+			const labels = requests
+				.filter((request) => request.method === "POST" && request.url.endsWith("/label"))
+				.flatMap((request) => JSON.parse(request.body!).map((label: { name: string }) => label.name));
+			assert.ok(labels.includes("guide"), "should add the front matter labels");
+		});
+
+		it("should fall back to the code macro in spaces without the diagram plugin", async () => {
+			await fs.writeFile(testFilePath, "```mermaid\ngraph TD\n```\n", "utf8");
+			const options = createOptions();
+			options.fileMap.diagrams = { mermaid: { macro: "mermaid-macro", fallbackSpaces: ["DOCS"] } };
+
+			const withPlugin = await publishedBody({ ...options, page: { ...options.page, spaceKey: "DEV" } });
+			const withoutPlugin = await publishedBody({ ...options, page: { ...options.page, spaceKey: "DOCS" } });
+
+			assert.ok(withPlugin.includes('ac:name="mermaid-macro"'));
+			assert.ok(!withoutPlugin.includes('ac:name="mermaid-macro"'));
+			assert.ok(withoutPlugin.includes('<ac:structured-macro ac:name="code">'));
+		});
+
+		it("should warn about invalid storage format and fail in strict mode", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			await fs.writeFile(testFilePath, "# Test\n\n<div>unclosed\n", "utf8");
+			mockConfluence("<p>old content</p>");
+
+			const result = await syncFiles(createOptions());
+			assert.equal(result.status, "updated", "should only warn by default");
+
+			process.env.INPUT_STRICT = "true";
+			try {
+				mockConfluence("<p>old content</p>");
+				await assert.rejects(syncFiles(createOptions()), /test\.md:3: Unclosed <div>/);
+				assert.ok(!requests.some((request) => request.method !== "GET"), "should not send anything");
+			} finally {
+				delete process.env.INPUT_STRICT;
+			}
+		});
+
+		it("should report the diff without changing anything in a dry run", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			const options = createOptions();
+			options.fileMap.banner = { position: "none" };
+			mockConfluence("<h1>Test Markdown</h1><p>This was a test file.</p>");
+
+			process.env["INPUT_DRY-RUN"] = "true";
+			try {
+				const result = await syncFiles(options);
+
+				assert.equal(result.status, "updated");
+				assert.match(result.diff!, /^-<p>This was a test file\.<\/p>$/m);
+				assert.match(result.diff!, /^\+<p>This is a test file\.<\/p>$/m);
+				assert.ok(!requests.some((request) => request.method !== "GET"), "should not send anything");
+			} finally {
+				delete process.env["INPUT_DRY-RUN"];
+			}
+		});
+
+		it("should name the file when the front matter is invalid", async () => {
+			const { syncFiles } = await import("./syncFiles.ts");
+			await fs.writeFile(testFilePath, "---\ntitel: Typo\n---\n# Test\n", "utf8");
+			mockConfluence("<p>old content</p>");
+
+			await assert.rejects(syncFiles(createOptions()), /Invalid front matter in test\.md: .*titel/);
+		});
+	});
 });
@@ -1,21 +1,182 @@
 import * as core from "@actions/core";
-import { SyncFilesOptions } from "./types";
+import { FileMappingType, SyncFilesOptions, SyncResult } from "./types";
 import { createLogger } from "./utils/logging";
-import { generateAutoGeneratedBanner } from "./utils/banner";
+import { addBanner, createBannerContext, renderVersionMessage, withoutRunDetails } from "./utils/banner";
+import { ConfluenceApiClient, ConfluencePage, ConfluencePageCreate, ConfluencePageUpdate } from "./confluence-api";
+import { ConfluenceTitleConflictError } from "./confluence-errors";
+import { convertToConfluenceStorage, detectContentType } from "./utils/confluence-converter";
+import { detectCodeLanguage } from "./utils/confluence-code-parser";
+import { extractHtmlTitle } from "./utils/confluence-html-parser";
+import { createLocalImageResolver, syncImageAttachments } from "./utils/attachments";
+import { createPageLinkResolver } from "./utils/page-links";
+import type { DiagramMacro } from "./utils/code-macro";
+import { applyFrontMatter, FrontMatter, parseFrontMatter } from "./utils/front-matter";
+import { reconcileLabels, sameLabels } from "./utils/labels";
+import { describeDrift, detectDrift, hashOwnedContent, PageDriftError } from "./utils/drift";
+import { findEditableRegions, preserveEditableRegions, renderEditableMarkers } from "./utils/editable-regions";
+import { diffStorage } from "./utils/storage-diff";
+import { formatStorageIssue, validateStorageFormat } from "./utils/storage-validation";
 import {
-	ConfluenceApiClient,
-	ConfluencePageCreate,
-	ConfluencePageUpdate
-} from "./confluence-api";
-import { convertToConfluenceStorage } from "./utils/confluence-converter";
+	getSyncOwner,
+	hashPageContent,
+	normalizeSourcePath,
+	readSyncState,
+	SyncState,
+	writeSyncState
+} from "./utils/sync-state";
 
-export async function syncFiles(options: SyncFilesOptions): Promise<void> {
-	const { fileMap, page } = options;
-	const { baseUrl, fileRoot } = fileMap;
+/**
+ * Create a Confluence API client from the configured connection settings
+ *
+ * Credentials given as action inputs take precedence over the ones in the
+ * file mappings. Without an explicit authType, a personal access token selects
+ * Bearer auth, OAuth client credentials select OAuth 2.0 and Basic auth is used otherwise.
+ */
+export function createConfluenceClient(fileMap: FileMappingType): ConfluenceApiClient {
+	const input = (name: string) => core.getInput(name) || undefined;
+
+	const token = input("confluence-pat") ?? fileMap.personalAccessToken;
+	const clientId = input("oauth-client-id") ?? fileMap.oauth?.clientId;
+	const clientSecret = input("oauth-client-secret") ?? fileMap.oauth?.clientSecret;
+	const authType = fileMap.authType ?? (token ? "bearer" : clientId && clientSecret ? "oauth2" : "basic");
+
+	return new ConfluenceApiClient(
+		{
+			baseUrl: fileMap.baseUrl,
+			apiPath: fileMap.apiPath,
+			authType,
+			user: input("confluence-user") ?? fileMap.user,
+			pass: input("confluence-pass") ?? fileMap.pass,
+			token,
+			oauth:
+				clientId && clientSecret
+					? { clientId, clientSecret, tokenUrl: fileMap.oauth?.tokenUrl, scope: fileMap.oauth?.scope }
+					: undefined,
+			retry: fileMap.retry
+		},
+		core.getInput("debug") === "true"
+	);
+}
+
+/**
+ * Build the browser URL of a page from the links Confluence returns
+ */
+export function getPageUrl(fileMap: FileMappingType, page: ConfluencePage): string | undefined {
+	if (!page._links?.webui) {
+		return undefined;
+	}
+	return `${page._links.base ?? fileMap.baseUrl}${page._links.webui}`;
+}
+
+/**
+ * Build the result reported for a page that failed to sync
+ */
+export function createFailedResult(page: SyncFilesOptions["page"], error: unknown): SyncResult {
+	return {
+		file: page.file,
+		pageId: page.pageId ?? "",
+		title: page.title ?? "",
+		status: "failed",
+		error: error instanceof Error ? error.message : String(error),
+		...(error instanceof PageDriftError && { drift: error.drift })
+	};
+}
+
+/**
+ * Hash a page as Confluence stored it, so edits to its editable regions can be told
+ * apart from drift at the next sync
+ */
+async function readPageHash(client: ConfluenceApiClient, pageId: string): Promise<string | undefined> {
+	const stored = await client.getPage(pageId);
+	return stored ? hashOwnedContent(stored.title, stored.body.storage.value) : undefined;
+}
+
+/**
+ * Describe a title that another page in the space already has
+ */
+function describeTitleConflict(title: string, spaceKey: string, file: string, pageId?: string): string {
+	const owner = pageId ? ` (ID: ${pageId})` : "";
+	return (
+		`A page titled "${title}" already exists in space ${spaceKey}${owner}. ` +
+		`Titles are unique within a space, so change the title of ${file} or map it to that page.`
+	);
+}
+
+/**
+ * Check that no other page in the space has a title, which Confluence would only answer with a 400 error
+ * @throws ConfluenceTitleConflictError naming the page that has the title
+ */
+async function assertTitleAvailable(
+	client: ConfluenceApiClient,
+	spaceKey: string,
+	title: string,
+	file: string,
+	pageId?: string
+): Promise<void> {
+	const existing = await client.findPageByTitle(spaceKey, title);
+	if (existing && existing.id !== pageId) {
+		throw new ConfluenceTitleConflictError(describeTitleConflict(title, spaceKey, file, existing.id));
+	}
+}
+
+/**
+ * Check that a page found by its title is the page of the file: one below the configured parent or one
+ * synced by this configuration. Any other page with the title belongs to someone else and isn't taken over;
+ * mapping its page ID is how a file takes over an existing page
+ * @throws ConfluenceTitleConflictError naming the page that has the title
+ */
+function assertOwnPage(
+	existing: ConfluencePage,
+	page: SyncFilesOptions["page"],
+	syncState: SyncState | undefined,
+	owner: string | undefined
+): void {
+	const belowParent = page.parentId !== undefined && existing.ancestors?.at(-1)?.id === page.parentId;
+	const synced = syncState !== undefined && syncState.owner === owner;
+	if (!belowParent && !synced) {
+		throw new ConfluenceTitleConflictError(
+			describeTitleConflict(existing.title, page.spaceKey!, page.file, existing.id)
+		);
+	}
+}
+
+/**
+ * Explain a title conflict that Confluence reported itself, e.g. for a page created in the meantime
+ */
+function explainTitleConflict(error: unknown, title: string, spaceKey: string, file: string): unknown {
+	if (error instanceof ConfluenceTitleConflictError && error.status) {
+		return new ConfluenceTitleConflictError(
+			describeTitleConflict(title, spaceKey, file),
+			error.status,
+			error.responseBody
+		);
+	}
+	return error;
+}
+
+/**
+ * Pick the diagram macros available in a space
+ *
+ * Diagrams listing the space in `fallbackSpaces` are left out, so their fences
+ * are rendered as code macros where the diagram plugin isn't installed.
+ */
+function selectDiagramMacros(fileMap: FileMappingType, spaceKey: string | undefined): Record<string, DiagramMacro> {
+	return Object.fromEntries(
+		Object.entries(fileMap.diagrams ?? {})
+			.filter(([, diagram]) => !spaceKey || !diagram.fallbackSpaces?.includes(spaceKey))
+			.map(([language, diagram]) => [language.toLowerCase(), diagram])
+	);
+}
+
+export async function syncFiles(options: SyncFilesOptions): Promise<SyncResult> {
+	const { fileMap } = options;
+	let { page } = options;
+	const { fileRoot } = fileMap;
+	const pageLabel = page.pageId ?? `"${page.title}"`;
 
 	const logger = createLogger(core.getInput("debug") === "true", "ConfluenceSync");
 
-	logger.info(`Starting sync for page ${page.pageId}: ${page.file} -> ${page.title || "untitled"}`);
+	logger.info(`Starting sync for page ${pageLabel}: ${page.file} -> ${page.title || "untitled"}`);
 
 	try {
 		// Import filesystem utilities
@@ -36,79 +197,299 @@ export async function syncFiles(options: SyncFilesOptions): Promise<void> {
 		const fileContent = await fs.readFile(filePath, "utf-8");
 		logger.info(`Successfully read file content (${fileContent.length} characters)`);
 
-		// Initialize Confluence API client
-		const confluenceClient = new ConfluenceApiClient(
-			{
-				baseUrl,
-				user: fileMap.user,
-				pass: fileMap.pass
+		// Use the client of the run, if given
+		const confluenceClient = options.client ?? createConfluenceClient(fileMap);
+
+		// Determine content type based on file extension, unless the page sets its format
+		const format = page.format ?? detectContentType(page.file);
+		const contentType = format === "noformat" ? "code" : format;
+
+		// Front matter of Markdown files overrides the page mapping and isn't rendered
+		let frontMatter: FrontMatter = { data: {}, body: fileContent };
+		if (contentType === "markdown") {
+			frontMatter = parseFrontMatter(fileContent, page.file);
+			page = applyFrontMatter(page, frontMatter.data);
+		} else if (contentType === "html" && !page.title) {
+			// The document's <title> names the page when no title is configured
+			page = { ...page, title: extractHtmlTitle(fileContent) };
+		}
+
+		// Try to get existing page, by ID or else by title within the space. A page ID that doesn't
+		// exist (such as a placeholder) falls back to the title, so the page created by the first run
+		// is updated by the next one instead of being created again
+		if (!page.pageId && !(page.spaceKey && page.title)) {
+			throw new Error(`Page for ${page.file} needs either a pageId or a spaceKey and title`);
+		}
+		let existingPage: ConfluencePage | null = page.pageId ? await confluenceClient.getPage(page.pageId) : null;
+		const locatedByTitle = !existingPage && Boolean(page.spaceKey && page.title);
+		if (!existingPage && page.spaceKey && page.title) {
+			existingPage = await confluenceClient.findPageByTitle(page.spaceKey, page.title);
+		}
+		const owner = getSyncOwner(fileMap);
+		const syncState = existingPage ? await readSyncState(confluenceClient, existingPage.id) : null;
+		if (existingPage && locatedByTitle) {
+			assertOwnPage(existingPage, page, syncState?.value, owner);
+		}
+
+		// Convert file content to Confluence storage format, collecting local images as attachments
+		// and turning links to other mapped files into page links
+		const imageResolver = createLocalImageResolver(filePath, logger);
+		const convertedContent = convertToConfluenceStorage(frontMatter.body, contentType, {
+			markdown: {
+				resolveImage: imageResolver.resolve,
+				resolveLink: createPageLinkResolver(
+					options.linkTargets ?? fileMap.pages,
+					fileRoot || process.cwd(),
+					filePath,
+					logger
+				),
+				diagrams: selectDiagramMacros(fileMap, page.spaceKey ?? existingPage?.space?.key)
 			},
-			core.getInput("debug") === "true"
-		);
+			code: {
+				language: page.language ?? detectCodeLanguage(page.file),
+				noformat: format === "noformat"
+			}
+		});
+		logger.info(`Converted content to Confluence storage format (${format} -> storage)`);
+		const confluenceContent = renderEditableMarkers(convertedContent);
 
-		// Determine content type based on file extension
-		const fileExtension = path.extname(page.file).toLowerCase();
-		let contentType: "markdown" | "html" | "plain" = "plain";
-		if (fileExtension === ".md" || fileExtension === ".markdown") {
-			contentType = "markdown";
-		} else if (fileExtension === ".html" || fileExtension === ".htm") {
-			contentType = "html";
+		// Add the prefix and the auto-generated banner, with page-level settings (including front matter)
+		// taking precedence over the global ones
+		const bannerSettings = { prefix: fileMap.prefix, ...fileMap.banner, ...page.banner };
+		const bannerContext = createBannerContext(page.file);
+		const contentWithBanner = addBanner(confluenceContent, bannerContext, bannerSettings);
+		// The commit, the workflow run and the sync timestamp differ on every run, so they're left out of
+		// the content hash; otherwise pages showing them (such as the default banner's link) would never be unchanged
+		const hashedContent = addBanner(confluenceContent, withoutRunDetails(bannerContext), bannerSettings);
+		if (bannerSettings.position !== "none") {
+			logger.info(`Added auto-generated file banner to the ${bannerSettings.position ?? "top"} of the content`);
 		}
 
-		// Convert file content to Confluence storage format
-		const confluenceContent = convertToConfluenceStorage(fileContent, contentType);
-		logger.info(`Converted content to Confluence storage format (${contentType} -> storage)`);
+		// Check the storage document before anything is sent to Confluence, which would only
+		// answer malformed markup with a generic 400 error
+		const storageIssues = validateStorageFormat(contentWithBanner).map((issue) =>
+			formatStorageIssue(page.file, fileContent, contentWithBanner, issue)
+		);
+		if (storageIssues.length > 0) {
+			if (core.getInput("strict") === "true") {
+				throw new Error(`Invalid storage format generated for ${page.file}:\n${storageIssues.join("\n")}`);
+			}
+			storageIssues.forEach((issue) => logger.warn(`Invalid storage format: ${issue}`));
+		}
 
-		// Generate and prepend auto-generated banner
-		const branch = process.env.GITHUB_REF;
-		const commitSha = process.env.GITHUB_SHA;
-		const banner = generateAutoGeneratedBanner(page.file, branch, commitSha);
-		const contentWithBanner = banner + confluenceContent;
-		logger.info("Added auto-generated file banner to content");
+		// Carry over the editable regions of the page on Confluence; everything else is owned by the
+		// source file, which is also all the content hash covers
+		const regions = preserveEditableRegions(contentWithBanner, existingPage?.body.storage.value);
+		const pageContent = regions.content;
+		if (regions.preserved.length > 0) {
+			logger.info(`Kept editable regions edited in Confluence: ${regions.preserved.join(", ")}`);
+		}
+		regions.invalid.forEach((name) =>
+			logger.warn(
+				`Editable region "${name}" on Confluence isn't well-formed, replacing it with the one in ${page.file}`
+			)
+		);
 
-		// Try to get existing page
-		const existingPage = await confluenceClient.getPage(page.pageId);
+		let result: SyncResult;
+		const labels = [...(fileMap.labels ?? []), ...(page.labels ?? [])];
+		const strictLabels = fileMap.strictLabels ?? false;
+		const driftPolicy = fileMap.drift ?? "overwrite";
+		const hasEditableRegions = findEditableRegions(pageContent).size > 0;
+		// Dry runs read the current pages and report what would change, without writing anything
+		const dryRun = core.getInput("dry-run") === "true";
 
 		if (existingPage) {
-			// Update existing page
-			logger.info(`Found existing page "${existingPage.title}". Updating content...`);
+			const title = page.title || existingPage.title;
+			// A configured parent other than the current one moves the page
+			const currentParentId = existingPage.ancestors?.at(-1)?.id;
+			const newParentId =
+				page.parentId && existingPage.ancestors && currentParentId !== page.parentId ? page.parentId : undefined;
+			const contentHash = hashPageContent(title, hashedContent);
 
-			const updateData: ConfluencePageUpdate = {
-				id: page.pageId,
-				type: "page",
-				title: page.title || existingPage.title,
-				body: {
-					storage: {
-						value: contentWithBanner,
-						representation: "storage"
-					}
-				},
-				version: {
-					number: existingPage.version.number + 1
+			// Skip the update when the rendered content matches what's on the page, either directly
+			// or by the hash recorded at the last sync (as long as nobody has edited the page since)
+			const unchanged =
+				!newParentId &&
+				title === existingPage.title &&
+				(existingPage.body.storage.value.trim() === pageContent.trim() ||
+					(syncState?.value.contentHash === contentHash && syncState.value.version === existingPage.version.number));
+
+			// Pages edited in Confluence since the last sync are handled by the drift policy,
+			// before any of their attachments or labels change
+			const drift = unchanged ? undefined : detectDrift(existingPage, syncState?.value);
+			if (drift && driftPolicy === "fail") {
+				throw new PageDriftError(
+					`Page "${existingPage.title}" was ${describeDrift(drift)}. Not overwriting the edits.`,
+					drift
+				);
+			}
+			if (drift && driftPolicy === "skip") {
+				logger.warn(`Page "${existingPage.title}" was ${describeDrift(drift)}. Skipping update.`);
+				return {
+					file: page.file,
+					pageId: existingPage.id,
+					title: existingPage.title,
+					url: getPageUrl(fileMap, existingPage),
+					status: "skipped",
+					drift
+				};
+			}
+
+			// Upload images first so the new version renders them straight away
+			if (!dryRun) {
+				await syncImageAttachments(confluenceClient, existingPage.id, imageResolver.images, logger);
+			}
+			const appliedLabels = dryRun
+				? labels
+				: await reconcileLabels(
+						confluenceClient,
+						existingPage.id,
+						{ labels, previous: syncState?.value.labels, strict: strictLabels },
+						logger
+					);
+
+			if (unchanged) {
+				logger.info(`Page "${existingPage.title}" is up to date. Skipping update.`);
+
+				// Remember the applied labels and the owner even when the content is unchanged
+				if (!dryRun && (!sameLabels(appliedLabels, syncState?.value.labels) || syncState?.value.owner !== owner)) {
+					await writeSyncState(
+						confluenceClient,
+						existingPage.id,
+						{
+							contentHash,
+							version: existingPage.version.number,
+							file: normalizeSourcePath(page.file),
+							owner,
+							labels: appliedLabels,
+							pageHash: hasEditableRegions
+								? hashOwnedContent(existingPage.title, existingPage.body.storage.value)
+								: undefined
+						},
+						syncState
+					);
+				}
+				result = {
+					file: page.file,
+					pageId: existingPage.id,
+					title,
+					url: getPageUrl(fileMap, existingPage),
+					status: "unchanged"
+				};
+			} else {
+				if (drift) {
+					logger.warn(`Page "${existingPage.title}" was ${describeDrift(drift)}. Overwriting the edits.`);
 				}
-			};
 
-			const updatedPage = await confluenceClient.updatePage(updateData);
-			logger.info(`Successfully updated page "${updatedPage.title}" (ID: ${updatedPage.id})`);
+				const spaceKey = existingPage.space?.key ?? page.spaceKey;
+				if (spaceKey && title !== existingPage.title) {
+					await assertTitleAvailable(confluenceClient, spaceKey, title, page.file, existingPage.id);
+				}
+				if (newParentId) {
+					const from = currentParentId ? `parent ${currentParentId}` : "the top of the space";
+					logger.info(`Moving page "${existingPage.title}" from ${from} to parent ${newParentId}`);
+				}
+
+				if (dryRun) {
+					logger.info(`Would update page "${existingPage.title}" (dry run)`);
+					return {
+						file: page.file,
+						pageId: existingPage.id,
+						title,
+						url: getPageUrl(fileMap, existingPage),
+						status: "updated",
+						diff: diffStorage(page.file, existingPage.body.storage.value, pageContent),
+						...(drift && { drift })
+					};
+				}
+
+				// Update existing page
+				logger.info(`Found existing page "${existingPage.title}". Updating content...`);
+
+				// Page-level settings take precedence over the global ones
+				const versionMessage = renderVersionMessage(page.versionMessage ?? fileMap.versionMessage, bannerContext);
+				const minorEdit = page.minorEdit ?? fileMap.minorEdit;
+
+				const updateData: ConfluencePageUpdate = {
+					id: existingPage.id,
+					type: "page",
+					title,
+					body: {
+						storage: {
+							value: pageContent,
+							representation: "storage"
+						}
+					},
+					...(newParentId && { ancestors: [{ id: newParentId }] }),
+					version: {
+						number: existingPage.version.number + 1,
+						...(versionMessage && { message: versionMessage }),
+						...(minorEdit !== undefined && { minorEdit })
+					}
+				};
+
+				const updatedPage = await confluenceClient.updatePage(updateData).catch((error: unknown) => {
+					throw spaceKey ? explainTitleConflict(error, title, spaceKey, page.file) : error;
+				});
+				logger.info(`Successfully updated page "${updatedPage.title}" (ID: ${updatedPage.id})`);
+
+				await writeSyncState(
+					confluenceClient,
+					updatedPage.id,
+					{
+						contentHash,
+						version: updatedPage.version.number,
+						file: normalizeSourcePath(page.file),
+						owner,
+						labels: appliedLabels,
+						pageHash: hasEditableRegions ? await readPageHash(confluenceClient, updatedPage.id) : undefined
+					},
+					syncState
+				);
+				result = {
+					file: page.file,
+					pageId: updatedPage.id,
+					title: updatedPage.title,
+					url: getPageUrl(fileMap, updatedPage),
+					status: "updated",
+					...(drift && { drift })
+				};
+			}
 		} else {
 			// Page doesn't exist, try to create it if we have space configuration
 			if (!page.spaceKey) {
-				logger.error(`Page ${page.pageId} not found and cannot create new pages without a space key`);
+				logger.error(`Page ${pageLabel} not found and cannot create new pages without a space key`);
 				logger.info(`To create new pages, add 'spaceKey' to your page configuration`);
-				throw new Error(`Page ${page.pageId} not found. Cannot create new pages without space key.`);
+				throw new Error(`Page ${pageLabel} not found. Cannot create new pages without space key.`);
+			}
+
+			const newTitle = page.title || `Untitled Page ${page.pageId}`;
+			// Pages looked up by title are already known not to exist
+			if (!locatedByTitle) {
+				await assertTitleAvailable(confluenceClient, page.spaceKey, newTitle, page.file);
+			}
+			if (dryRun) {
+				logger.info(`Would create page "${newTitle}" in space ${page.spaceKey} (dry run)`);
+				return {
+					file: page.file,
+					pageId: page.pageId ?? "",
+					title: newTitle,
+					status: "created",
+					diff: diffStorage(page.file, "", pageContent)
+				};
 			}
 
-			logger.info(`Page ${page.pageId} not found. Creating new page in space ${page.spaceKey}...`);
+			logger.info(`Page ${pageLabel} not found. Creating new page in space ${page.spaceKey}...`);
 
 			const createData: ConfluencePageCreate = {
 				type: "page",
-				title: page.title || `Untitled Page ${page.pageId}`,
+				title: newTitle,
 				space: {
 					key: page.spaceKey
 				},
 				body: {
 					storage: {
-						value: contentWithBanner,
+						value: pageContent,
 						representation: "storage"
 					}
 				}
@@ -120,30 +501,51 @@ export async function syncFiles(options: SyncFilesOptions): Promise<void> {
 				logger.info(`Creating page under parent ${page.parentId}`);
 			}
 
-			const createdPage = await confluenceClient.createPage(createData);
+			const spaceKey = page.spaceKey;
+			const createdPage = await confluenceClient.createPage(createData).catch((error: unknown) => {
+				throw explainTitleConflict(error, newTitle, spaceKey, page.file);
+			});
 			logger.info(`Successfully created new page "${createdPage.title}" (ID: ${createdPage.id})`);
 
-			// Update the pageId in outputs to reflect the actual created page ID
-			core.setOutput("page-id", createdPage.id);
+			await syncImageAttachments(confluenceClient, createdPage.id, imageResolver.images, logger);
+			const appliedLabels = await reconcileLabels(
+				confluenceClient,
+				createdPage.id,
+				{ labels, strict: strictLabels },
+				logger
+			);
+			await writeSyncState(
+				confluenceClient,
+				createdPage.id,
+				{
+					contentHash: hashPageContent(createdPage.title, hashedContent),
+					version: createdPage.version.number,
+					file: normalizeSourcePath(page.file),
+					owner,
+					labels: appliedLabels,
+					pageHash: hasEditableRegions ? await readPageHash(confluenceClient, createdPage.id) : undefined
+				},
+				null
+			);
+
+			result = {
+				file: page.file,
+				pageId: createdPage.id,
+				title: createdPage.title,
+				url: getPageUrl(fileMap, createdPage),
+				status: "created"
+			};
 		}
 
-		// Set GitHub Actions outputs
-		core.setOutput("page-id", page.pageId);
-		core.setOutput("page-title", page.title || "untitled");
-		core.setOutput("file-path", page.file);
-		core.setOutput("status", "success");
+		return result;
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
-		logger.error(`Error syncing ${page.file} to Confluence page ${page.pageId}: ${errorMessage}`);
+		logger.error(`Error syncing ${page.file} to Confluence page ${pageLabel}: ${errorMessage}`);
 
 		if (error instanceof Error && error.stack) {
 			logger.debug(`Error stack: ${error.stack}`);
 		}
 
-		// Set failure outputs
-		core.setOutput("status", "failed");
-		core.setOutput("error", errorMessage);
-
 		// Re-throw to maintain error behavior
 		throw error;
 	}
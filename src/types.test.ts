@@ -74,7 +74,7 @@ describe("types and schemas", () => {
 			pass: "testpass",
 			pages: [
 				{
-					// Missing required pageId and file
+					// Missing required file
 					title: "Test Page"
 				}
 			]
@@ -123,4 +123,34 @@ describe("types and schemas", () => {
 		assert.equal(result.pages.length, 0);
 	});
 
+	it("should accept directory mappings without pages", () => {
+		const directoryConfig = {
+			baseUrl: "https://fake-test-confluence.invalid/rest/api",
+			directories: [
+				{
+					source: "docs",
+					rootPageId: "123456",
+					spaceKey: "DEV",
+					exclude: ["drafts/**"]
+				}
+			]
+		};
+
+		const result = FileMappingsSchema.parse(directoryConfig);
+
+		assert.deepEqual(result.pages, [], "pages should default to an empty array");
+		assert.equal(result.directories?.[0].source, "docs");
+		assert.equal(result.directories?.[0].include, undefined);
+	});
+
+	it("should reject directory mappings without a space key", () => {
+		assert.throws(
+			() =>
+				FileMappingsSchema.parse({
+					baseUrl: "https://fake-test-confluence.invalid/rest/api",
+					directories: [{ source: "docs", rootPageId: "123456" }]
+				}),
+			{ name: "ZodError" }
+		);
+	});
 });
@@ -1,31 +1,186 @@
 import { z } from "zod";
+import type { ConfluenceApiClient } from "./confluence-api";
+
+/**
+ * How a file is converted: Markdown, HTML, plain text, a code macro or a noformat macro
+ */
+export const PageFormatSchema = z.enum(["markdown", "html", "plain", "code", "noformat"]);
+
+/**
+ * Auto-generated banner: panel type, where it goes and a Markdown text with placeholders such as `{file}`
+ */
+export const BannerSchema = z.object({
+	panel: z.enum(["info", "note", "tip", "warning"]).optional(),
+	position: z.enum(["top", "bottom", "none"]).optional(),
+	text: z.string().optional()
+});
+
+/**
+ * A page is located by its ID, or else by space key and title
+ */
+export const PageMappingSchema = z.object({
+	pageId: z.string().optional(),
+	file: z.string(),
+	title: z.string().optional(),
+	spaceKey: z.string().optional(),
+	parentId: z.string().optional(),
+	labels: z.array(z.string()).optional(),
+	format: PageFormatSchema.optional(),
+	language: z.string().optional(),
+	banner: BannerSchema.optional(),
+	versionMessage: z.string().optional(),
+	minorEdit: z.boolean().optional()
+});
+
+export const DirectoryMappingSchema = z.object({
+	source: z.string(),
+	rootPageId: z.string(),
+	spaceKey: z.string(),
+	include: z.array(z.string()).optional(),
+	exclude: z.array(z.string()).optional()
+});
+
+export const PruneSchema = z
+	.object({
+		policy: z.enum(["archive", "delete", "report"]).default("report"),
+		rootPageId: z.string().optional(),
+		spaceKey: z.string().optional()
+	})
+	.refine((prune) => prune.rootPageId || prune.spaceKey, {
+		message: "prune needs a rootPageId or spaceKey to limit which pages are considered"
+	});
+
+export const RetrySchema = z.object({
+	maxRetries: z.number().int().min(0).optional(),
+	baseDelayMs: z.number().int().min(0).optional(),
+	maxDelayMs: z.number().int().min(0).optional()
+});
+
+export const OAuthSchema = z.object({
+	clientId: z.string().optional(),
+	clientSecret: z.string().optional(),
+	tokenUrl: z.string().optional(),
+	scope: z.string().optional()
+});
+
+export const DiagramMacroSchema = z.object({
+	macro: z.string(),
+	body: z.enum(["plain-text", "rich-text", "parameter"]).optional(),
+	bodyParameter: z.string().optional(),
+	parameters: z.record(z.string(), z.string()).optional(),
+	fallbackSpaces: z.array(z.string()).optional()
+});
+
+/**
+ * What to do with pages edited in Confluence since the last sync
+ */
+export const DriftPolicySchema = z.enum(["overwrite", "skip", "fail"]);
 
 export const FileMappingsSchema = z.object({
 	baseUrl: z.string(),
+	apiPath: z.string().optional(),
+	authType: z.enum(["basic", "bearer", "oauth2"]).optional(),
 	user: z.string().optional(),
 	pass: z.string().optional(),
+	personalAccessToken: z.string().optional(),
+	oauth: OAuthSchema.optional(),
 	prefix: z.string().optional(),
+	banner: BannerSchema.optional(),
+	labels: z.array(z.string()).optional(),
+	strictLabels: z.boolean().optional(),
 	fileRoot: z.string().optional(),
-	pages: z.array(
-		z.object({
-			pageId: z.string(),
-			file: z.string(),
-			title: z.string().optional(),
-			spaceKey: z.string().optional(),
-			parentId: z.string().optional()
-		})
-	)
+	pages: z.array(PageMappingSchema).default([]),
+	directories: z.array(DirectoryMappingSchema).optional(),
+	prune: PruneSchema.optional(),
+	/** Identifies the pages of this configuration when pruning (defaults to the repository) */
+	owner: z.string().optional(),
+	retry: RetrySchema.optional(),
+	concurrency: z.number().int().min(1).optional(),
+	drift: DriftPolicySchema.optional(),
+	versionMessage: z.string().optional(),
+	minorEdit: z.boolean().optional(),
+	diagrams: z.record(z.string(), DiagramMacroSchema).optional()
 });
 
+/**
+ * Page ID given as a YAML number, e.g. `parentId: 12345`
+ */
+const IdSchema = z.union([z.string(), z.number().int()]).transform(String);
+
+export const FrontMatterSchema = z
+	.object({
+		title: z.string().optional(),
+		spaceKey: z.string().optional(),
+		parentId: IdSchema.optional(),
+		labels: z.array(z.string()).optional(),
+		banner: z.union([z.boolean(), BannerSchema.strict()]).optional()
+	})
+	.strict();
+
 export interface SyncFilesOptions {
 	fileMap: FileMappingType;
 	page: {
-		pageId: string;
+		/** Omitted for pages that are located by space key and title */
+		pageId?: string;
 		file: string;
 		title?: string;
 		spaceKey?: string;
 		parentId?: string;
+		labels?: string[];
+		/** Overrides the format detected from the file extension */
+		format?: PageFormatType;
+		/** Code macro language for the `code` format (detected from the extension by default) */
+		language?: string;
+		/** Overrides the global banner settings */
+		banner?: BannerType;
+		/** Overrides the global version message template */
+		versionMessage?: string;
+		/** Overrides the global minor edit setting */
+		minorEdit?: boolean;
 	};
+	/** Pages that relative links may point at (defaults to `fileMap.pages`) */
+	linkTargets?: SyncFilesOptions["page"][];
+	/** Client shared by the pages of a run, so an OAuth 2.0 token is only requested once (created from `fileMap` by default) */
+	client?: ConfluenceApiClient;
 }
 
 export type FileMappingType = z.infer<typeof FileMappingsSchema>;
+export type PageMappingType = z.infer<typeof PageMappingSchema>;
+export type PageFormatType = z.infer<typeof PageFormatSchema>;
+export type DirectoryMappingType = z.infer<typeof DirectoryMappingSchema>;
+export type PruneType = z.infer<typeof PruneSchema>;
+export type BannerType = z.infer<typeof BannerSchema>;
+export type DriftPolicyType = z.infer<typeof DriftPolicySchema>;
+export type DiagramMacroType = z.infer<typeof DiagramMacroSchema>;
+export type FrontMatterType = z.infer<typeof FrontMatterSchema>;
+
+export type SyncStatus = "created" | "updated" | "unchanged" | "skipped" | "failed";
+
+/**
+ * Edit made in Confluence since the last sync
+ */
+export interface PageDrift {
+	/** Current version of the page */
+	version: number;
+	/** Version created by the last sync */
+	syncedVersion: number;
+	/** Author of the current version */
+	editedBy?: string;
+	/** When the current version was created */
+	editedAt?: string;
+}
+
+export interface SyncResult {
+	file: string;
+	/** Empty when a page that doesn't exist yet failed to sync */
+	pageId: string;
+	title: string;
+	/** Browser URL of the page, when known */
+	url?: string;
+	status: SyncStatus;
+	error?: string;
+	/** Set when the page was edited in Confluence since the last sync */
+	drift?: PageDrift;
+	/** Unified diff of the storage format that would be published, in dry runs */
+	diff?: string;
+}
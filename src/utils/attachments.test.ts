@@ -0,0 +1,142 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import type { ConfluenceApiClient, ConfluenceAttachment, ConfluenceAttachmentUpload } from "../confluence-api.ts";
+import { createLocalImageResolver, syncImageAttachments } from "./attachments.ts";
+import { hashContent } from "./hash.ts";
+import { createLogger } from "./logging/index.ts";
+
+describe("attachments", () => {
+	let tempDir: string;
+	let sourceFile: string;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "attachments-test-"));
+		sourceFile = path.join(tempDir, "docs", "guide.md");
+		await fs.mkdir(path.join(tempDir, "docs", "img"), { recursive: true });
+		await fs.mkdir(path.join(tempDir, "shared"), { recursive: true });
+		await fs.writeFile(path.join(tempDir, "docs", "img", "logo.png"), "docs-logo");
+		await fs.writeFile(path.join(tempDir, "docs", "photo.png"), "photo");
+		await fs.writeFile(path.join(tempDir, "docs", "my diagram.png"), "diagram");
+		await fs.writeFile(path.join(tempDir, "shared", "logo.png"), "shared-logo");
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	describe("createLocalImageResolver", () => {
+		it("should resolve images relative to the source file", () => {
+			const resolver = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+
+			assert.equal(resolver.resolve("./photo.png"), "photo.png");
+			assert.match(resolver.resolve("./img/logo.png")!, /^[0-9a-f]{8}-logo\.png$/);
+			assert.equal(resolver.images.length, 2);
+			assert.equal(resolver.images[1].filePath, path.join(tempDir, "docs", "img", "logo.png"));
+		});
+
+		it("should decode URI-encoded references", () => {
+			const resolver = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+
+			assert.equal(resolver.resolve("my%20diagram.png"), "my diagram.png");
+		});
+
+		it("should reuse the filename for repeated references", () => {
+			const resolver = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+
+			resolver.resolve("./img/logo.png");
+			resolver.resolve("img/logo.png");
+
+			assert.equal(resolver.images.length, 1);
+		});
+
+		it("should disambiguate images sharing a basename regardless of their order", () => {
+			const resolver = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+			const reordered = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+
+			const first = resolver.resolve("./img/logo.png");
+			const second = resolver.resolve("../shared/logo.png");
+
+			assert.notEqual(second, first);
+			assert.ok(second?.endsWith("-logo.png"), "should keep the basename as suffix");
+			assert.equal(reordered.resolve("../shared/logo.png"), second);
+			assert.equal(reordered.resolve("./img/logo.png"), first);
+		});
+
+		it("should return undefined for missing images", () => {
+			const resolver = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+
+			assert.equal(resolver.resolve("./img/missing.png"), undefined);
+			assert.equal(resolver.images.length, 0);
+		});
+	});
+
+	describe("syncImageAttachments", () => {
+		// Minimal client serving the given attachments and recording uploads
+		const createClient = (attachments: Array<Partial<ConfluenceAttachment>>) => {
+			const uploads: ConfluenceAttachmentUpload[] = [];
+			const client = {
+				getAttachments: async () => attachments,
+				uploadAttachment: async (_pageId: string, upload: ConfluenceAttachmentUpload) => {
+					uploads.push(upload);
+					return { id: "att", title: upload.filename };
+				}
+			} as unknown as ConfluenceApiClient;
+			return { client, uploads };
+		};
+
+		it("should skip images whose hash matches the attachment comment", async () => {
+			const resolver = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+			resolver.resolve("./photo.png");
+			const { client, uploads } = createClient([
+				{
+					id: "att1",
+					title: "photo.png",
+					metadata: { comment: `Synced from ./photo.png (sha256:${hashContent("photo")})` }
+				}
+			]);
+
+			const uploaded = await syncImageAttachments(client, "1", resolver.images, createLogger(false, "Test"));
+
+			assert.equal(uploaded, 0);
+			assert.deepEqual(uploads, []);
+		});
+
+		it("should upload a new version of changed images and attach new ones", async () => {
+			const resolver = createLocalImageResolver(sourceFile, createLogger(false, "Test"));
+			resolver.resolve("./photo.png");
+			resolver.resolve("my%20diagram.png");
+			const { client, uploads } = createClient([
+				{ id: "att1", title: "photo.png", metadata: { comment: "Synced from ./photo.png (sha256:0a1b)" } }
+			]);
+
+			const uploaded = await syncImageAttachments(client, "1", resolver.images, createLogger(false, "Test"));
+
+			assert.equal(uploaded, 2);
+			assert.deepEqual(
+				uploads.map(({ filename, contentType, comment, attachmentId }) => ({
+					filename,
+					contentType,
+					comment,
+					attachmentId
+				})),
+				[
+					{
+						filename: "photo.png",
+						contentType: "image/png",
+						comment: `Synced from ./photo.png (sha256:${hashContent("photo")})`,
+						attachmentId: "att1"
+					},
+					{
+						filename: "my diagram.png",
+						contentType: "image/png",
+						comment: `Synced from my%20diagram.png (sha256:${hashContent("diagram")})`,
+						attachmentId: undefined
+					}
+				]
+			);
+		});
+	});
+});
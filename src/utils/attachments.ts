@@ -0,0 +1,144 @@
+import { existsSync, statSync } from "fs";
+import { readFile } from "fs/promises";
+import * as path from "path";
+import type { ConfluenceApiClient, ConfluenceAttachment } from "../confluence-api";
+import { hashContent } from "./hash";
+import type { Logger } from "./logging";
+
+/**
+ * A local image referenced from a source file
+ */
+export interface LocalImage {
+	/** Reference as written in the source file */
+	src: string;
+	/** Absolute path of the image on disk */
+	filePath: string;
+	/** Attachment filename on the Confluence page */
+	filename: string;
+}
+
+export interface LocalImageResolver {
+	/** Map an image reference to an attachment filename, or undefined if it can't be resolved */
+	resolve: (src: string) => string | undefined;
+	/** Images resolved so far, one entry per distinct file */
+	images: LocalImage[];
+}
+
+const MEDIA_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".svg": "image/svg+xml",
+	".webp": "image/webp"
+};
+
+/**
+ * Create a resolver for images referenced relative to a source file
+ *
+ * Each distinct image file gets one attachment filename. Images next to the
+ * source file keep their basename; images anywhere else get a short hash of
+ * their relative path prepended, so images in different folders sharing a
+ * basename don't overwrite each other. The filename only depends on the path,
+ * so reordering references doesn't rename (and re-upload) attachments.
+ *
+ * @param sourceFilePath - Absolute path of the file containing the references
+ * @param logger - Logger used to warn about missing images
+ */
+export function createLocalImageResolver(sourceFilePath: string, logger: Logger): LocalImageResolver {
+	const sourceDir = path.dirname(sourceFilePath);
+	const images: LocalImage[] = [];
+
+	const resolve = (src: string): string | undefined => {
+		let decoded = src.replace(/[?#].*$/, "");
+		try {
+			decoded = decodeURI(decoded);
+		} catch {
+			// Keep the raw reference if it isn't valid URI encoding
+		}
+
+		const filePath = path.resolve(sourceDir, decoded);
+		const known = images.find((image) => image.filePath === filePath);
+		if (known) {
+			return known.filename;
+		}
+
+		if (!existsSync(filePath) || !statSync(filePath).isFile()) {
+			logger.warn(`Image ${src} referenced from ${path.basename(sourceFilePath)} not found at ${filePath}`);
+			return undefined;
+		}
+
+		const relativePath = path.relative(sourceDir, filePath).split(path.sep).join("/");
+		const filename =
+			path.dirname(filePath) === sourceDir
+				? path.basename(filePath)
+				: `${hashContent(relativePath).slice(0, 8)}-${path.basename(filePath)}`;
+
+		images.push({ src, filePath, filename });
+		return filename;
+	};
+
+	return { resolve, images };
+}
+
+function getAttachmentComment(attachment: ConfluenceAttachment): string {
+	return attachment.metadata?.comment ?? attachment.extensions?.comment ?? "";
+}
+
+/**
+ * Read the image reference an attachment was uploaded for by {@link syncImageAttachments}
+ * @returns The reference as written in the source file, or undefined for other attachments
+ */
+export function readAttachmentSource(attachment: ConfluenceAttachment): string | undefined {
+	return /^Synced from (.+) \(sha256:[0-9a-f]+\)$/.exec(getAttachmentComment(attachment))?.[1];
+}
+
+/**
+ * Upload local images as attachments of a page
+ *
+ * The content hash is stored in the attachment comment so images that haven't
+ * changed since the last sync are not uploaded again.
+ *
+ * @param client - Confluence API client
+ * @param pageId - ID of the page to attach the images to
+ * @param images - Images collected by a {@link LocalImageResolver}
+ * @param logger - Logger
+ * @returns Number of attachments uploaded
+ */
+export async function syncImageAttachments(
+	client: ConfluenceApiClient,
+	pageId: string,
+	images: LocalImage[],
+	logger: Logger
+): Promise<number> {
+	if (images.length === 0) {
+		return 0;
+	}
+
+	const existing = await client.getAttachments(pageId);
+	let uploaded = 0;
+
+	for (const image of images) {
+		const data = await readFile(image.filePath);
+		const hash = hashContent(data);
+		const attachment = existing.find((candidate) => candidate.title === image.filename);
+		const comment = attachment ? getAttachmentComment(attachment) : "";
+
+		if (attachment && comment.includes(`sha256:${hash}`)) {
+			logger.debug(`Attachment ${image.filename} is unchanged, skipping upload`);
+			continue;
+		}
+
+		await client.uploadAttachment(pageId, {
+			filename: image.filename,
+			data,
+			contentType: MEDIA_TYPES[path.extname(image.filePath).toLowerCase()],
+			comment: `Synced from ${image.src} (sha256:${hash})`,
+			attachmentId: attachment?.id
+		});
+		uploaded++;
+	}
+
+	logger.info(`Synced ${images.length} image attachments (${uploaded} uploaded)`);
+	return uploaded;
+}
@@ -0,0 +1,154 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+	addBanner,
+	createBannerContext,
+	generateAutoGeneratedBanner,
+	renderBannerTemplate,
+	renderVersionMessage,
+	withoutRunDetails
+} from "./banner.ts";
+import { validateStorageFormat } from "./storage-validation.ts";
+
+const env = {
+	GITHUB_REPOSITORY: "acme/docs",
+	GITHUB_SERVER_URL: "https://github.acme.com/",
+	GITHUB_REF: "refs/heads/main",
+	GITHUB_REF_NAME: "main",
+	GITHUB_SHA: "0123456789abcdef",
+	GITHUB_RUN_ID: "42"
+};
+const context = createBannerContext("docs/getting started.md", env, new Date("2024-05-01T12:30:45Z"));
+
+describe("banner", () => {
+	it("should collect the context from the GitHub environment", () => {
+		assert.deepEqual(context, {
+			file: "docs/getting started.md",
+			repository: "acme/docs",
+			serverUrl: "https://github.acme.com",
+			branch: "main",
+			commitSha: "0123456789abcdef",
+			commitSubject: undefined,
+			runId: "42",
+			timestamp: "2024-05-01 12:30 UTC"
+		});
+	});
+
+	it("should read the commit subject from the event payload", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "banner-test-"));
+		const eventPath = path.join(dir, "event.json");
+		fs.writeFileSync(eventPath, JSON.stringify({ head_commit: { message: "Fix typo\n\nLonger description" } }));
+
+		try {
+			assert.equal(createBannerContext("a.md", { GITHUB_EVENT_PATH: eventPath }).commitSubject, "Fix typo");
+			assert.equal(
+				createBannerContext("a.md", { GITHUB_EVENT_PATH: path.join(dir, "missing.json") }).commitSubject,
+				undefined
+			);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("should fill in the placeholders", () => {
+		assert.equal(
+			renderBannerTemplate("{file} in {repo}@{branch} ({sha}) at {timestamp}, run {runUrl} {unknown}", context),
+			"docs/getting started.md in acme/docs@main (0123456) at 2024-05-01 12:30 UTC, " +
+				"run https://github.acme.com/acme/docs/actions/runs/42 {unknown}"
+		);
+		assert.equal(
+			renderBannerTemplate("{fileUrl}", context),
+			"https://github.acme.com/acme/docs/blob/0123456789abcdef/docs/getting%20started.md"
+		);
+	});
+
+	it("should leave the values that change from run to run out", () => {
+		assert.equal(
+			renderBannerTemplate("{sha}|{subject}|{runUrl}|{timestamp}|{fileUrl}", withoutRunDetails(context)),
+			"||||https://github.acme.com/acme/docs/blob/main/docs/getting%20started.md"
+		);
+	});
+
+	it("should link to the file on the server the workflow runs on", () => {
+		const banner = generateAutoGeneratedBanner(context);
+
+		assert.match(banner, /<ac:structured-macro ac:name="info"/);
+		assert.match(
+			banner,
+			/<a href="https:\/\/github\.acme\.com\/acme\/docs\/blob\/0123456789abcdef\/docs\/getting%20started\.md">/
+		);
+	});
+
+	it("should name the file outside of a repository", () => {
+		const banner = generateAutoGeneratedBanner(createBannerContext("a&b.md", {}));
+
+		assert.match(banner, /Source file: <code>a&amp;b\.md<\/code>/);
+		assert.deepEqual(validateStorageFormat(banner), []);
+	});
+
+	it("should render a custom text as Markdown in the configured panel", () => {
+		const banner = generateAutoGeneratedBanner(context, {
+			panel: "warning",
+			text: "Synced from **{repo}** by [run {runUrl}]({runUrl})"
+		});
+
+		assert.match(banner, /<ac:structured-macro ac:name="warning"/);
+		assert.match(
+			banner,
+			/<p>Synced from <strong>acme\/docs<\/strong> by <a href="https:\/\/github\.acme\.com\/acme\/docs\/actions\/runs\/42">/
+		);
+		assert.doesNotMatch(banner, /View original file/);
+		assert.deepEqual(validateStorageFormat(banner), []);
+	});
+
+	it("should render the placeholder values of a custom text as plain text", () => {
+		const banner = generateAutoGeneratedBanner(
+			{ ...context, file: "docs/my_*notes*.md", commitSubject: "Fix <br> handling & add `<details>` support" },
+			{ text: "Synced {subject} from `{file}` ([source]({fileUrl}))" }
+		);
+
+		assert.match(banner, /Synced Fix &lt;br&gt; handling &amp; add `&lt;details&gt;` support from /);
+		assert.match(banner, /<code>docs\/my_\*notes\*\.md<\/code>/);
+		assert.match(
+			banner,
+			/<a href="https:\/\/github\.acme\.com\/acme\/docs\/blob\/0123456789abcdef\/docs\/my_\*notes\*\.md">/
+		);
+		assert.deepEqual(validateStorageFormat(banner), []);
+	});
+
+	it("should place the banner at the configured position after the prefix", () => {
+		const banner = generateAutoGeneratedBanner(context);
+		const marker =
+			'<ac:structured-macro ac:name="anchor" ac:schema-version="1">' +
+			'<ac:parameter ac:name="">happi-generated</ac:parameter></ac:structured-macro>';
+
+		assert.ok(banner.startsWith(`<p>${marker}<ac:structured-macro ac:name="info"`), "should mark the banner");
+		assert.equal(addBanner("<p>Body</p>", context), `${banner}<p>Body</p>`);
+		assert.equal(addBanner("<p>Body</p>", context, { position: "bottom" }), `<p>Body</p>${banner}`);
+		assert.equal(
+			addBanner("<p>Body</p>", context, { position: "none", prefix: "Generated from {file} & more" }),
+			`<p>${marker}Generated from docs/getting started.md &amp; more</p><p>Body</p>`
+		);
+		assert.equal(
+			addBanner("<p>Body</p>", context, { prefix: "Read only" }),
+			`<p>${marker}Read only</p>${banner}<p>Body</p>`
+		);
+	});
+
+	it("should name the commit and the workflow run in the version message", () => {
+		const withSubject = { ...context, commitSubject: "Fix typo" };
+
+		assert.equal(
+			renderVersionMessage(undefined, withSubject),
+			"0123456: Fix typo (https://github.acme.com/acme/docs/actions/runs/42)"
+		);
+		assert.equal(renderVersionMessage(undefined, createBannerContext("a.md", {})), "");
+		assert.equal(
+			renderVersionMessage(" Sync of {file}: {subject} ", withSubject),
+			"Sync of docs/getting started.md: Fix typo"
+		);
+	});
+});
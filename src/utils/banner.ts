@@ -1,50 +1,263 @@
+import { readFileSync } from "fs";
+import type { BannerType } from "../types";
+import { convertMarkdownToConfluenceStorage } from "./confluence-markdown-parser";
+import { escapeXml } from "./xml";
+
 /**
- * Generate an auto-generated file banner in Confluence storage format
- * @param filePath - Path to the original file
- * @param branch - Git branch/ref (optional)
- * @param commitSha - Git commit SHA (optional)
- * @returns HTML string in Confluence storage format
+ * Name of the anchor macro starting the paragraphs of the prefix and the banner,
+ * so pulling a page can leave them out
+ */
+export const GENERATED_ANCHOR = "happi-generated";
+
+const GENERATED_MARKER =
+	`<ac:structured-macro ac:name="anchor" ac:schema-version="1">` +
+	`<ac:parameter ac:name="">${GENERATED_ANCHOR}</ac:parameter></ac:structured-macro>`;
+
+/**
+ * Banner settings of a page: the merged global and page-level `banner`
+ * settings plus the global `prefix` text
+ */
+export interface BannerSettings extends BannerType {
+	prefix?: string;
+}
+
+/**
+ * Where a synced file comes from, used to fill in the banner placeholders
+ */
+export interface BannerContext {
+	/** Path of the source file */
+	file: string;
+	/** Repository as `owner/name` */
+	repository?: string;
+	/** GitHub (Enterprise) server the workflow runs on */
+	serverUrl: string;
+	/** Branch or tag name */
+	branch?: string;
+	commitSha?: string;
+	/** First line of the commit message */
+	commitSubject?: string;
+	/** ID of the workflow run */
+	runId?: string;
+	/** Time of the sync, e.g. `2024-05-01 12:30 UTC` */
+	timestamp: string;
+}
+
+/**
+ * Collect the banner context of a file from the GitHub Actions environment
+ * @param file - Path of the source file
+ * @param env - Environment variables (defaults to `process.env`)
+ * @param now - Time of the sync
+ */
+export function createBannerContext(file: string, env = process.env, now = new Date()): BannerContext {
+	return {
+		file,
+		repository: env.GITHUB_REPOSITORY || undefined,
+		serverUrl: (env.GITHUB_SERVER_URL || "https://github.com").replace(/\/+$/, ""),
+		branch: env.GITHUB_REF_NAME || env.GITHUB_REF?.replace(/^refs\/(heads|tags)\//, "") || undefined,
+		commitSha: env.GITHUB_SHA || undefined,
+		commitSubject: readCommitSubject(env.GITHUB_EVENT_PATH),
+		runId: env.GITHUB_RUN_ID || undefined,
+		timestamp: `${now.toISOString().slice(0, 16).replace("T", " ")} UTC`
+	};
+}
+
+/**
+ * Leave the values that change from run to run out of a banner context (the
+ * commit, the workflow run and the sync timestamp), so the content it renders
+ * can be compared across syncs. Links to the source file then point at the
+ * branch instead of the commit.
  */
-export function generateAutoGeneratedBanner(
-	filePath: string,
-	branch?: string,
-	commitSha?: string
+export function withoutRunDetails(context: BannerContext): BannerContext {
+	return { ...context, commitSha: undefined, commitSubject: undefined, runId: undefined, timestamp: "" };
+}
+
+/**
+ * Read the subject of the pushed commit from the webhook payload of the workflow run
+ * @param eventPath - Path of the event payload, set for workflow runs
+ * @returns The first line of the commit message, or undefined for events without a head commit
+ */
+function readCommitSubject(eventPath: string | undefined): string | undefined {
+	if (!eventPath) {
+		return undefined;
+	}
+	try {
+		const event = JSON.parse(readFileSync(eventPath, "utf-8"));
+		const message: unknown = event.head_commit?.message;
+		return typeof message === "string" ? message.split("\n")[0].trim() || undefined : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Link to the source file on the server the workflow runs on, pinned to the
+ * commit when it is known
+ * @returns The URL, or an empty string outside of a repository
+ */
+function getFileUrl(context: BannerContext): string {
+	if (!context.repository) {
+		return "";
+	}
+	// Encode each path segment separately to preserve the slashes
+	const encodedFilePath = context.file
+		.split("/")
+		.map((segment) => encodeURIComponent(segment))
+		.join("/");
+	const ref = context.commitSha || context.branch || "main";
+	return `${context.serverUrl}/${context.repository}/blob/${ref}/${encodedFilePath}`;
+}
+
+/**
+ * Values of the placeholders available in banner texts and the prefix
+ *
+ * - `{file}`: Path of the source file
+ * - `{repo}`: Repository as `owner/name`
+ * - `{branch}`: Branch or tag name
+ * - `{sha}`: Short commit SHA
+ * - `{subject}`: First line of the commit message
+ * - `{timestamp}`: Time of the sync
+ * - `{fileUrl}`: Link to the source file
+ * - `{runUrl}`: Link to the workflow run
+ */
+export function getBannerPlaceholders(context: BannerContext): Record<string, string> {
+	return {
+		file: context.file,
+		repo: context.repository ?? "",
+		branch: context.branch ?? "",
+		sha: context.commitSha?.slice(0, 7) ?? "",
+		subject: context.commitSubject ?? "",
+		timestamp: context.timestamp,
+		fileUrl: getFileUrl(context),
+		runUrl:
+			context.repository && context.runId
+				? `${context.serverUrl}/${context.repository}/actions/runs/${context.runId}`
+				: ""
+	};
+}
+
+/**
+ * Placeholders holding links, which are inserted into Markdown texts as they are so they stay links
+ */
+const URL_PLACEHOLDERS = new Set(["fileUrl", "runUrl"]);
+
+function fillPlaceholders(
+	text: string,
+	placeholders: Record<string, string>,
+	escape: (value: string) => string = (value) => value
 ): string {
-	// Get GitHub repository URL from environment variables
-	const repository = process.env.GITHUB_REPOSITORY;
-	const serverUrl = process.env.GITHUB_SERVER_URL || "https://github.com";
-
-	let fileUrl = "";
-	if (repository) {
-		// Use the commit SHA if available, otherwise use the branch/ref
-		const ref = commitSha || branch || process.env.GITHUB_REF || "main";
-		// Remove 'refs/heads/' prefix if present
-		const cleanRef = ref.replace(/^refs\/heads\//, "");
-		// Encode the file path for URL (encode each segment separately to preserve slashes)
-		const encodedFilePath = filePath
-			.split("/")
-			.map((segment) => encodeURIComponent(segment))
-			.join("/");
-		fileUrl = `${serverUrl}/${repository}/blob/${cleanRef}/${encodedFilePath}`;
+	return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+		if (!Object.hasOwn(placeholders, name)) {
+			return placeholder;
+		}
+		return URL_PLACEHOLDERS.has(name) ? placeholders[name] : escape(placeholders[name]);
+	});
+}
+
+/**
+ * Backslash-escape the characters Markdown would read as formatting or HTML
+ */
+function escapeMarkdown(value: string): string {
+	return value.replace(/[\\`*_{}[\]()<>#+\-.!|~&]/g, "\\$&");
+}
+
+/**
+ * Replace the `{placeholder}`s of a banner template; unknown placeholders are kept as they are
+ */
+export function renderBannerTemplate(template: string, context: BannerContext): string {
+	return fillPlaceholders(template, getBannerPlaceholders(context));
+}
+
+/**
+ * Replace the `{placeholder}`s of a Markdown banner text, so values such as a commit subject
+ * mentioning `<br>` render as text. Code spans show their content as it is, so the values in
+ * them aren't escaped.
+ */
+function renderMarkdownTemplate(template: string, context: BannerContext): string {
+	const placeholders = getBannerPlaceholders(context);
+	let rendered = "";
+	let last = 0;
+
+	for (const span of template.matchAll(/(`+)[^]*?\1/g)) {
+		rendered += fillPlaceholders(template.slice(last, span.index), placeholders, escapeMarkdown);
+		rendered += fillPlaceholders(span[0], placeholders);
+		last = span.index + span[0].length;
 	}
 
-	// Create a styled info panel banner in Confluence storage format
-	// Using Confluence's info panel macro for better visibility
-	const bannerContent = fileUrl
-		? `<p><ac:structured-macro ac:name="info" ac:schema-version="1">
-<ac:rich-text-body>
-<p><strong>⚠️ Auto-Generated File</strong></p>
+	return rendered + fillPlaceholders(template.slice(last), placeholders, escapeMarkdown);
+}
+
+/**
+ * Render the message of the page version an update creates
+ *
+ * Without a template, the message names the commit and links to the workflow run,
+ * e.g. `0123456: Fix typo (https://github.com/acme/docs/actions/runs/42)`.
+ *
+ * @param template - Message with the same placeholders as the banner text
+ * @param context - Source of the file
+ * @returns The message, or an empty string when there is nothing to say
+ */
+export function renderVersionMessage(template: string | undefined, context: BannerContext): string {
+	if (template !== undefined) {
+		return renderBannerTemplate(template, context).trim();
+	}
+	const { sha, subject, runUrl } = getBannerPlaceholders(context);
+	return [[sha, subject].filter(Boolean).join(": "), runUrl && `(${runUrl})`].filter(Boolean).join(" ");
+}
+
+/**
+ * Generate an auto-generated file banner in Confluence storage format
+ *
+ * Without a custom `text`, the banner links to the source file on the server
+ * the workflow runs on, or names the file outside of a repository.
+ *
+ * @param context - Source of the file
+ * @param settings - Panel type and Markdown text of the banner
+ * @returns HTML string in Confluence storage format
+ */
+export function generateAutoGeneratedBanner(context: BannerContext, settings: BannerType = {}): string {
+	const panel = settings.panel ?? "info";
+	const fileUrl = getFileUrl(context);
+
+	const source = fileUrl
+		? `<p><a href="${escapeXml(fileUrl)}">View original file on GitHub</a></p>`
+		: `<p>Source file: <code>${escapeXml(context.file)}</code></p>`;
+	const body =
+		settings.text !== undefined
+			? convertMarkdownToConfluenceStorage(renderMarkdownTemplate(settings.text, context)).trim()
+			: `<p><strong>⚠️ Auto-Generated File</strong></p>
 <p>This page is automatically generated from a source file in the repository.</p>
-<p><a href="${fileUrl}">View original file on GitHub</a></p>
-</ac:rich-text-body>
-</ac:structured-macro></p>`
-		: `<p><ac:structured-macro ac:name="info" ac:schema-version="1">
+${source}`;
+
+	// Create a styled panel banner in Confluence storage format
+	return `<p>${GENERATED_MARKER}<ac:structured-macro ac:name="${panel}" ac:schema-version="1">
 <ac:rich-text-body>
-<p><strong>⚠️ Auto-Generated File</strong></p>
-<p>This page is automatically generated from a source file in the repository.</p>
-<p>Source file: <code>${filePath}</code></p>
+${body}
 </ac:rich-text-body>
 </ac:structured-macro></p>`;
+}
 
-	return bannerContent;
+/**
+ * Add the prefix text and the banner to a page's content
+ *
+ * The prefix is plain text and always comes first. The banner goes above or
+ * below the content, or is left out when its position is `none`. Both start
+ * with an invisible anchor marking them as generated.
+ *
+ * @param content - Page content in Confluence storage format
+ * @param context - Source of the file
+ * @param settings - Banner settings of the page
+ */
+export function addBanner(content: string, context: BannerContext, settings: BannerSettings = {}): string {
+	const prefix = settings.prefix
+		? `<p>${GENERATED_MARKER}${escapeXml(renderBannerTemplate(settings.prefix, context))}</p>`
+		: "";
+
+	switch (settings.position ?? "top") {
+		case "top":
+			return prefix + generateAutoGeneratedBanner(context, settings) + content;
+		case "bottom":
+			return prefix + content + generateAutoGeneratedBanner(context, settings);
+		case "none":
+			return prefix + content;
+	}
 }
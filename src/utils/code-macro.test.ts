@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeCodeLanguage, parseFenceInfo, renderCodeMacro, renderDiagramMacro } from "./code-macro.ts";
+
+describe("code-macro", () => {
+	describe("normalizeCodeLanguage", () => {
+		it("should map aliases to Confluence language names", () => {
+			assert.equal(normalizeCodeLanguage("c++"), "cpp");
+			assert.equal(normalizeCodeLanguage("Objective-C"), "objc");
+			assert.equal(normalizeCodeLanguage("js"), "javascript");
+			assert.equal(normalizeCodeLanguage("yml"), "yaml");
+		});
+
+		it("should pass through other languages in lowercase", () => {
+			assert.equal(normalizeCodeLanguage("Java"), "java");
+			assert.equal(normalizeCodeLanguage(""), undefined);
+			assert.equal(normalizeCodeLanguage(undefined), undefined);
+		});
+	});
+
+	describe("parseFenceInfo", () => {
+		it("should parse the language and options", () => {
+			assert.deepEqual(parseFenceInfo('ts title="My app.ts" linenumbers collapse'), {
+				language: "typescript",
+				title: "My app.ts",
+				linenumbers: true,
+				collapse: true
+			});
+		});
+
+		it("should accept unquoted and explicit boolean values", () => {
+			assert.deepEqual(parseFenceInfo("python title=setup.py linenumbers=false collapse=true"), {
+				language: "python",
+				title: "setup.py",
+				linenumbers: false,
+				collapse: true
+			});
+		});
+
+		it("should ignore unknown options and empty info strings", () => {
+			assert.deepEqual(parseFenceInfo("bash highlight=2"), { language: "bash" });
+			assert.deepEqual(parseFenceInfo(undefined), { language: undefined });
+		});
+	});
+
+	describe("renderCodeMacro", () => {
+		it("should render the macro parameters", () => {
+			const result = renderCodeMacro("x", { language: "cpp", title: "a & b", linenumbers: true, collapse: true });
+
+			assert.equal(
+				result,
+				'<ac:structured-macro ac:name="code">' +
+					'<ac:parameter ac:name="language">cpp</ac:parameter>' +
+					'<ac:parameter ac:name="title">a &amp; b</ac:parameter>' +
+					'<ac:parameter ac:name="linenumbers">true</ac:parameter>' +
+					'<ac:parameter ac:name="collapse">true</ac:parameter>' +
+					"<ac:plain-text-body><![CDATA[x]]></ac:plain-text-body></ac:structured-macro>"
+			);
+		});
+
+		it("should split CDATA end markers in the code", () => {
+			const result = renderCodeMacro("a]]>b");
+
+			assert.ok(result.includes("<![CDATA[a]]]]><![CDATA[>b]]>"));
+		});
+	});
+
+	describe("renderDiagramMacro", () => {
+		const source = "A -> B: <hello>";
+
+		it("should put the source in a plain-text body by default", () => {
+			assert.equal(
+				renderDiagramMacro(source, { macro: "plantuml", parameters: { format: "svg" } }),
+				'<ac:structured-macro ac:name="plantuml"><ac:parameter ac:name="format">svg</ac:parameter>' +
+					"<ac:plain-text-body><![CDATA[A -> B: <hello>]]></ac:plain-text-body></ac:structured-macro>"
+			);
+		});
+
+		it("should support rich-text bodies and source parameters", () => {
+			assert.equal(
+				renderDiagramMacro("a\nb", { macro: "mermaid", body: "rich-text" }),
+				'<ac:structured-macro ac:name="mermaid"><ac:rich-text-body><p>a<br />b</p></ac:rich-text-body></ac:structured-macro>'
+			);
+			assert.equal(
+				renderDiagramMacro(source, { macro: "mermaid", body: "parameter", bodyParameter: "code" }),
+				'<ac:structured-macro ac:name="mermaid"><ac:parameter ac:name="code">A -&gt; B: &lt;hello&gt;</ac:parameter></ac:structured-macro>'
+			);
+		});
+	});
+});
@@ -0,0 +1,176 @@
+import { escapeXml } from "./xml";
+
+/**
+ * Parameters of the Confluence code macro
+ */
+export interface CodeMacroOptions {
+	language?: string;
+	title?: string;
+	linenumbers?: boolean;
+	collapse?: boolean;
+}
+
+/**
+ * Confluence macro a diagram fence (e.g. ```` ```mermaid ````) is rendered with
+ */
+export interface DiagramMacro {
+	/** Macro name, e.g. `plantuml` */
+	macro: string;
+	/**
+	 * Where the diagram source goes: a plain-text body (default), a rich-text
+	 * body, or the macro parameter named by `bodyParameter`
+	 */
+	body?: "plain-text" | "rich-text" | "parameter";
+	/** Parameter holding the source when `body` is `parameter` (default: `source`) */
+	bodyParameter?: string;
+	/** Fixed macro parameters */
+	parameters?: Record<string, string>;
+}
+
+/**
+ * Languages that Confluence's code macro spells differently than Markdown fences
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+	"c++": "cpp",
+	cc: "cpp",
+	cxx: "cpp",
+	hpp: "cpp",
+	"c#": "csharp",
+	cs: "csharp",
+	js: "javascript",
+	jsx: "javascript",
+	mjs: "javascript",
+	cjs: "javascript",
+	node: "javascript",
+	ts: "typescript",
+	tsx: "typescript",
+	sh: "bash",
+	shell: "bash",
+	zsh: "bash",
+	console: "bash",
+	py: "python",
+	rb: "ruby",
+	kt: "kotlin",
+	golang: "go",
+	html: "xml",
+	xhtml: "xml",
+	svg: "xml",
+	yml: "yaml",
+	ps1: "powershell",
+	pwsh: "powershell",
+	"objective-c": "objc",
+	objectivec: "objc",
+	vbnet: "vb",
+	visualbasic: "vb",
+	patch: "diff",
+	md: "markdown"
+};
+
+/**
+ * Map a fence language onto the name the code macro expects
+ * @returns The Confluence language, or undefined for an empty language
+ */
+export function normalizeCodeLanguage(language: string | undefined): string | undefined {
+	const name = language?.trim().toLowerCase();
+	if (!name) {
+		return undefined;
+	}
+	return LANGUAGE_ALIASES[name] ?? name;
+}
+
+/**
+ * Parse a fence info string such as `ts title="app.ts" linenumbers collapse`
+ *
+ * The first word is the language. Options are `key=value` (the value may be
+ * quoted) or bare flags; unknown options are ignored.
+ */
+export function parseFenceInfo(info: string | undefined): CodeMacroOptions {
+	const [language, ...words] = tokenizeInfo(info ?? "");
+	const options: CodeMacroOptions = { language: normalizeCodeLanguage(language) };
+
+	for (const word of words) {
+		const [, key, value] = /^([\w-]+)(?:=(.*))?$/.exec(word) ?? [];
+		switch (key?.toLowerCase()) {
+			case "title":
+				options.title = value;
+				break;
+			case "linenumbers":
+				options.linenumbers = value === undefined || value === "true";
+				break;
+			case "collapse":
+				options.collapse = value === undefined || value === "true";
+				break;
+		}
+	}
+
+	return options;
+}
+
+/**
+ * Split an info string on whitespace, keeping quoted values together and unquoting them
+ */
+function tokenizeInfo(info: string): string[] {
+	const words: string[] = [];
+	const pattern = /(?:[^\s"']+|"[^"]*"|'[^']*')+/g;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(info)) !== null) {
+		words.push(match[0].replace(/"([^"]*)"|'([^']*)'/g, "$1$2"));
+	}
+
+	return words;
+}
+
+/**
+ * Render code as a Confluence code macro
+ * @param code - Source code, without escaping
+ * @param options - Macro parameters
+ */
+export function renderCodeMacro(code: string, options: CodeMacroOptions = {}): string {
+	const parameters = [
+		options.language && renderParameter("language", options.language),
+		options.title && renderParameter("title", options.title),
+		options.linenumbers && renderParameter("linenumbers", "true"),
+		options.collapse && renderParameter("collapse", "true")
+	]
+		.filter(Boolean)
+		.join("");
+
+	return `<ac:structured-macro ac:name="code">${parameters}${renderPlainTextBody(code)}</ac:structured-macro>`;
+}
+
+/**
+ * Render diagram source with the configured diagram macro
+ * @param source - Diagram source, without escaping
+ * @param diagram - Macro to render the diagram with
+ */
+export function renderDiagramMacro(source: string, diagram: DiagramMacro): string {
+	const parameters = Object.entries(diagram.parameters ?? {}).map(([name, value]) => renderParameter(name, value));
+	let body = "";
+
+	switch (diagram.body ?? "plain-text") {
+		case "plain-text":
+			body = renderPlainTextBody(source);
+			break;
+		case "rich-text":
+			body = `<ac:rich-text-body><p>${escapeXml(source).replace(/\n/g, "<br />")}</p></ac:rich-text-body>`;
+			break;
+		case "parameter":
+			parameters.push(renderParameter(diagram.bodyParameter ?? "source", source));
+			break;
+	}
+
+	return `<ac:structured-macro ac:name="${escapeXml(diagram.macro)}">${parameters.join("")}${body}</ac:structured-macro>`;
+}
+
+/**
+ * Render text as the CDATA body of a plain-text macro
+ */
+export function renderPlainTextBody(text: string): string {
+	// "]]>" would end the CDATA section early, so split it across two sections
+	return `<ac:plain-text-body><![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]></ac:plain-text-body>`;
+}
+
+function renderParameter(name: string, value: string): string {
+	return `<ac:parameter ac:name="${escapeXml(name)}">${escapeXml(value)}</ac:parameter>`;
+}
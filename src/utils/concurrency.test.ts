@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createLimiter } from "./concurrency.ts";
+
+describe("concurrency", () => {
+	it("should never run more tasks than the limit", async () => {
+		const limit = createLimiter(2);
+		let running = 0;
+		let maxRunning = 0;
+
+		const task = async (value: number) => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			running--;
+			return value;
+		};
+
+		const results = await Promise.all([1, 2, 3, 4, 5].map((value) => limit(() => task(value))));
+
+		assert.deepEqual(results, [1, 2, 3, 4, 5]);
+		assert.equal(maxRunning, 2);
+	});
+
+	it("should keep running queued tasks after a failure", async () => {
+		const limit = createLimiter(1);
+
+		const results = await Promise.allSettled([
+			limit(async () => {
+				throw new Error("boom");
+			}),
+			limit(async () => "ok")
+		]);
+
+		assert.equal(results[0].status, "rejected");
+		assert.deepEqual(results[1], { status: "fulfilled", value: "ok" });
+	});
+
+	it("should reject invalid limits", () => {
+		assert.throws(() => createLimiter(0), /positive integer/);
+	});
+});
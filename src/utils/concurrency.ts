@@ -0,0 +1,35 @@
+/**
+ * Create a limiter that runs at most `concurrency` tasks at the same time
+ *
+ * Tasks beyond the limit wait in FIFO order until a running task settles.
+ *
+ * @param concurrency - Maximum number of tasks running at once
+ * @returns Function scheduling a task and resolving with its result
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+	}
+
+	let running = 0;
+	const queue: Array<() => void> = [];
+
+	const next = () => {
+		running--;
+		queue.shift()?.();
+	};
+
+	return <T>(task: () => Promise<T>): Promise<T> =>
+		new Promise<T>((resolve, reject) => {
+			const start = () => {
+				running++;
+				task().then(resolve, reject).finally(next);
+			};
+
+			if (running < concurrency) {
+				start();
+			} else {
+				queue.push(start);
+			}
+		});
+}
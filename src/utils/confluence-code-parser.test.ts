@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convertCodeToConfluenceStorage, detectCodeLanguage } from "./confluence-code-parser.ts";
+import { detectContentType } from "./confluence-converter.ts";
+
+describe("confluence-code-parser", () => {
+	it("should detect the content type from the extension", () => {
+		assert.equal(detectContentType("docs/readme.md"), "markdown");
+		assert.equal(detectContentType("site/index.HTML"), "html");
+		assert.equal(detectContentType("docker-compose.yml"), "code");
+		assert.equal(detectContentType("db/schema.sql"), "code");
+		assert.equal(detectContentType("notes.txt"), "plain");
+		assert.equal(detectContentType("LICENSE"), "plain");
+	});
+
+	it("should detect the code language from the extension", () => {
+		assert.equal(detectCodeLanguage("deploy.sh"), "bash");
+		assert.equal(detectCodeLanguage("docker-compose.yaml"), "yaml");
+		assert.equal(detectCodeLanguage("config.toml"), undefined);
+		assert.equal(detectCodeLanguage("notes.txt"), undefined);
+	});
+
+	it("should wrap the whole file in a code macro", () => {
+		const result = convertCodeToConfluenceStorage("SELECT * FROM t WHERE a < 1 && b;\r\n", { language: "sql" });
+
+		assert.equal(
+			result,
+			'<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">sql</ac:parameter>' +
+				"<ac:plain-text-body><![CDATA[SELECT * FROM t WHERE a < 1 && b;]]></ac:plain-text-body></ac:structured-macro>"
+		);
+	});
+
+	it("should normalize the configured language", () => {
+		assert.ok(
+			convertCodeToConfluenceStorage("x", { language: "YML" }).includes(
+				'<ac:parameter ac:name="language">yaml</ac:parameter>'
+			)
+		);
+	});
+
+	it("should use the noformat macro when requested", () => {
+		assert.equal(
+			convertCodeToConfluenceStorage("a ]]> b\n", { language: "sql", noformat: true }),
+			'<ac:structured-macro ac:name="noformat"><ac:plain-text-body><![CDATA[a ]]]]><![CDATA[> b]]></ac:plain-text-body></ac:structured-macro>'
+		);
+	});
+});
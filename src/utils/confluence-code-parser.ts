@@ -0,0 +1,104 @@
+import * as path from "path";
+import { normalizeCodeLanguage, renderCodeMacro, renderPlainTextBody } from "./code-macro";
+
+/**
+ * Types for source code to Confluence storage format conversion
+ */
+export interface CodeParserOptions {
+	/** Language of the code macro (ignored for `noformat`) */
+	language?: string;
+	/** Render the file with the `noformat` macro instead of the code macro */
+	noformat?: boolean;
+}
+
+/**
+ * Extensions synced as code, with the code macro language they are highlighted as.
+ * Extensions mapped to undefined are shown as code without highlighting.
+ */
+const CODE_EXTENSIONS: Record<string, string | undefined> = {
+	".sh": "bash",
+	".bash": "bash",
+	".zsh": "bash",
+	".ps1": "powershell",
+	".bat": undefined,
+	".cmd": undefined,
+	".js": "javascript",
+	".mjs": "javascript",
+	".cjs": "javascript",
+	".jsx": "javascript",
+	".ts": "typescript",
+	".tsx": "typescript",
+	".py": "python",
+	".rb": "ruby",
+	".go": "go",
+	".java": "java",
+	".kt": "kotlin",
+	".kts": "kotlin",
+	".scala": "scala",
+	".groovy": "groovy",
+	".gradle": "groovy",
+	".c": "cpp",
+	".h": "cpp",
+	".cpp": "cpp",
+	".cc": "cpp",
+	".hpp": "cpp",
+	".cs": "csharp",
+	".php": "php",
+	".pl": "perl",
+	".swift": "swift",
+	".rs": "rust",
+	".sql": "sql",
+	".css": "css",
+	".scss": "sass",
+	".sass": "sass",
+	".xml": "xml",
+	".xsd": "xml",
+	".svg": "xml",
+	".json": "json",
+	".yml": "yaml",
+	".yaml": "yaml",
+	".toml": undefined,
+	".ini": undefined,
+	".properties": undefined,
+	".env": undefined,
+	".tf": undefined,
+	".proto": undefined,
+	".graphql": undefined,
+	".diff": "diff",
+	".patch": "diff"
+};
+
+/**
+ * Check whether a file is synced as code, based on its extension
+ */
+export function isCodeFile(file: string): boolean {
+	return Object.hasOwn(CODE_EXTENSIONS, path.extname(file).toLowerCase());
+}
+
+/**
+ * Get the code macro language of a file from its extension
+ */
+export function detectCodeLanguage(file: string): string | undefined {
+	const extension = path.extname(file).toLowerCase();
+	return Object.hasOwn(CODE_EXTENSIONS, extension) ? CODE_EXTENSIONS[extension] : undefined;
+}
+
+/**
+ * Convert a source code or configuration file to Confluence storage format
+ *
+ * The whole file becomes a single code macro (or `noformat` macro), so it is
+ * shown exactly as written.
+ *
+ * @param content - File content
+ * @param options - Parser options
+ * @returns Content in Confluence storage format
+ */
+export function convertCodeToConfluenceStorage(content: string, options: CodeParserOptions = {}): string {
+	const code = content.replace(/\r\n/g, "\n").replace(/^\n+|\n+$/g, "");
+
+	if (options.noformat) {
+		return `<ac:structured-macro ac:name="noformat">${renderPlainTextBody(code)}</ac:structured-macro>`;
+	}
+
+	return renderCodeMacro(code, { language: normalizeCodeLanguage(options.language) });
+}
@@ -1,18 +1,39 @@
+import * as path from "path";
+import { CodeParserOptions, convertCodeToConfluenceStorage, isCodeFile } from "./confluence-code-parser";
 import { convertHtmlToConfluenceStorage, HtmlParserOptions } from "./confluence-html-parser";
-import { convertMarkdownToConfluenceStorage } from "./confluence-markdown-parser";
+import { convertMarkdownToConfluenceStorage, MarkdownParserOptions } from "./confluence-markdown-parser";
 import { convertPlainTextToConfluenceStorage, PlainTextParserOptions } from "./confluence-plaintext-parser";
 
 /**
  * Content type for conversion
  */
-export type ContentType = "markdown" | "html" | "plain";
+export type ContentType = "markdown" | "html" | "plain" | "code";
 
 /**
  * Options for content conversion
  */
 export interface ConverterOptions {
 	html?: HtmlParserOptions;
+	markdown?: MarkdownParserOptions;
 	plain?: PlainTextParserOptions;
+	code?: CodeParserOptions;
+}
+
+/**
+ * Pick the content type of a file from its extension
+ *
+ * Markdown and HTML files are converted, source code and configuration files
+ * are shown as code, and everything else is treated as plain text.
+ */
+export function detectContentType(file: string): ContentType {
+	const extension = path.extname(file).toLowerCase();
+	if (extension === ".md" || extension === ".markdown") {
+		return "markdown";
+	}
+	if (extension === ".html" || extension === ".htm") {
+		return "html";
+	}
+	return isCodeFile(file) ? "code" : "plain";
 }
 
 /**
@@ -21,7 +42,7 @@ export interface ConverterOptions {
  * This function routes content to the appropriate parser based on the content type.
  * 
  * @param content - Content to convert
- * @param contentType - Type of content (markdown, html, or plain)
+ * @param contentType - Type of content (markdown, html, plain or code)
  * @param options - Optional parser-specific options
  * @returns HTML content in Confluence storage format
  */
@@ -34,7 +55,9 @@ export function convertToConfluenceStorage(
 		case "html":
 			return convertHtmlToConfluenceStorage(content, options.html);
 		case "markdown":
-			return convertMarkdownToConfluenceStorage(content);
+			return convertMarkdownToConfluenceStorage(content, options.markdown);
+		case "code":
+			return convertCodeToConfluenceStorage(content, options.code);
 		case "plain":
 		default:
 			return convertPlainTextToConfluenceStorage(content, options.plain);
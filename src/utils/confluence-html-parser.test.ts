@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convertHtmlToConfluenceStorage, extractHtmlTitle } from "./confluence-html-parser.ts";
+
+describe("confluence-html-parser", () => {
+	describe("convertHtmlToConfluenceStorage", () => {
+		it("should keep only the body of a full document", () => {
+			const html = `<!DOCTYPE html>
+<html>
+<head><title>Guide</title><style>p { color: red; }</style></head>
+<body>
+<h1>Guide</h1>
+<script>alert("hi")</script>
+<p>Hello</p>
+</body>
+</html>`;
+
+			assert.equal(convertHtmlToConfluenceStorage(html), "<h1>Guide</h1><p>Hello</p>");
+		});
+
+		it("should close void elements and drop event handlers and comments", () => {
+			const result = convertHtmlToConfluenceStorage(
+				'<p onclick="steal()">a<br>b<!-- note --></p><hr><img src="a.png" alt="A">'
+			);
+
+			assert.equal(result, '<p>a<br />b</p><hr /><p><img src="a.png" alt="A" /></p>');
+		});
+
+		it("should re-encode entities as valid XML", () => {
+			const result = convertHtmlToConfluenceStorage("<p>Fish &amp; chips&nbsp;&copy; 2024 &lt;tag&gt; & more</p>");
+
+			assert.equal(result, "<p>Fish &amp; chips © 2024 &lt;tag&gt; &amp; more</p>");
+		});
+
+		it("should convert pre/code blocks to the code macro", () => {
+			const result = convertHtmlToConfluenceStorage('<pre><code class="language-js">if (a &lt; b) {}\n</code></pre>');
+
+			assert.equal(
+				result,
+				'<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">javascript</ac:parameter>' +
+					"<ac:plain-text-body><![CDATA[if (a < b) {}]]></ac:plain-text-body></ac:structured-macro>"
+			);
+		});
+
+		it("should wrap loose inline content in paragraphs", () => {
+			assert.equal(convertHtmlToConfluenceStorage("Hello <b>world</b>"), "<p>Hello <b>world</b></p>");
+			assert.equal(
+				convertHtmlToConfluenceStorage("Hello <b>world</b>", { wrapInParagraph: false }),
+				"Hello <b>world</b>"
+			);
+		});
+
+		it("should keep the comments marking editable regions as blocks of their own", () => {
+			assert.equal(
+				convertHtmlToConfluenceStorage("Intro<!-- editable:start status -->Open<!-- editable:end status -->"),
+				"<p>Intro</p><!-- editable:start status --><p>Open</p><!-- editable:end status -->"
+			);
+		});
+	});
+
+	describe("extractHtmlTitle", () => {
+		it("should return the document title", () => {
+			assert.equal(extractHtmlTitle("<html><head><title>\n  My  Guide </title></head></html>"), "My Guide");
+			assert.equal(extractHtmlTitle("<p>No title</p>"), undefined);
+		});
+	});
+});
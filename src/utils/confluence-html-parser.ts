@@ -1,36 +1,168 @@
+import { isComment, isTag, isText, type ChildNode, type Element } from "domhandler";
+import { DomUtils, parseDocument } from "htmlparser2";
+import { normalizeCodeLanguage, renderCodeMacro } from "./code-macro";
+import { isEditableMarker } from "./editable-regions";
+import { escapeXml } from "./xml";
+
 /**
  * Types for HTML to Confluence storage format conversion
  */
 export interface HtmlParserOptions {
 	/**
-	 * Whether to wrap the HTML content in a paragraph tag if it's not already wrapped
+	 * Whether to wrap text and inline elements at the top level of the body in paragraphs
 	 * @default true
 	 */
 	wrapInParagraph?: boolean;
 }
 
+/**
+ * Elements that never have content and are written as self-closing tags
+ */
+const VOID_ELEMENTS = new Set([
+	"area",
+	"base",
+	"br",
+	"col",
+	"embed",
+	"hr",
+	"img",
+	"input",
+	"link",
+	"meta",
+	"param",
+	"source",
+	"track",
+	"wbr"
+]);
+
+/**
+ * Elements that are removed together with their content
+ */
+const DROPPED_ELEMENTS = new Set(["head", "script", "style", "noscript", "template", "iframe", "object"]);
+
+/**
+ * Elements that are allowed directly in the page body; everything else is wrapped in a paragraph
+ */
+const BLOCK_ELEMENTS = new Set([
+	"address",
+	"article",
+	"aside",
+	"blockquote",
+	"details",
+	"div",
+	"dl",
+	"figure",
+	"footer",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"header",
+	"hr",
+	"main",
+	"nav",
+	"ol",
+	"p",
+	"pre",
+	"section",
+	"table",
+	"ul"
+]);
+
 /**
  * Convert HTML content to Confluence storage format
- * 
- * If content is already HTML, wrap it in basic Confluence storage format.
- * This is a basic implementation - for production use, consider using a proper HTML parser
- * to ensure the HTML is valid and properly formatted for Confluence.
- * 
- * @param content - HTML content to convert
+ *
+ * Parses the HTML and writes it back as well-formed XHTML:
+ * - Only the content of `<body>` is kept (the whole input for fragments)
+ * - Scripts, styles, comments and event handler attributes are dropped, except for
+ *   the comments marking editable regions
+ * - Void elements are closed (`<br />`) and entities are re-encoded as valid XML
+ * - `<pre><code>` blocks are converted to the Confluence code macro
+ *
+ * @param content - HTML document or fragment to convert
  * @param options - Parser options
- * @returns HTML content wrapped in Confluence storage format
+ * @returns Content in Confluence storage format
  */
-export function convertHtmlToConfluenceStorage(
-	content: string,
-	options: HtmlParserOptions = {}
-): string {
+export function convertHtmlToConfluenceStorage(content: string, options: HtmlParserOptions = {}): string {
 	const { wrapInParagraph = true } = options;
 
+	const document = parseDocument(content, { lowerCaseTags: true, lowerCaseAttributeNames: true });
+	const body = DomUtils.findOne((element) => element.name === "body", document.children);
+	const html = DomUtils.findOne((element) => element.name === "html", document.children);
+	const nodes = (body ?? html ?? document).children;
+
 	if (!wrapInParagraph) {
-		return content;
+		return serializeNodes(nodes);
+	}
+
+	// Group runs of loose text and inline elements into paragraphs
+	let result = "";
+	let inline = "";
+	for (const node of nodes) {
+		// Editable region markers become paragraphs of their own, so they're block level too
+		if ((isTag(node) && BLOCK_ELEMENTS.has(node.name)) || (isComment(node) && isEditableMarker(node.data))) {
+			result += wrapParagraph(inline) + serializeNode(node);
+			inline = "";
+		} else {
+			inline += serializeNode(node);
+		}
+	}
+	return result + wrapParagraph(inline);
+}
+
+/**
+ * Get the `<title>` of an HTML document, used as the page title when none is configured
+ */
+export function extractHtmlTitle(content: string): string | undefined {
+	const document = parseDocument(content, { lowerCaseTags: true });
+	const title = DomUtils.findOne((element) => element.name === "title", document.children);
+	const text = title ? DomUtils.textContent(title).replace(/\s+/g, " ").trim() : "";
+	return text || undefined;
+}
+
+function wrapParagraph(inline: string): string {
+	return inline.trim() ? `<p>${inline.trim()}</p>` : "";
+}
+
+function serializeNodes(nodes: ChildNode[]): string {
+	return nodes.map(serializeNode).join("");
+}
+
+function serializeNode(node: ChildNode): string {
+	if (isText(node)) {
+		return escapeXml(node.data);
 	}
+	if (isComment(node) && isEditableMarker(node.data)) {
+		return `<!--${node.data}-->`;
+	}
+	if (!isTag(node) || DROPPED_ELEMENTS.has(node.name)) {
+		return "";
+	}
+	if (node.name === "pre") {
+		const code = node.children.find((child): child is Element => isTag(child) && child.name === "code");
+		if (code) {
+			return renderCodeBlock(code);
+		}
+	}
+
+	const attributes = Object.entries(node.attribs)
+		.filter(([name]) => !name.startsWith("on") && /^[a-z_:][\w.:-]*$/.test(name))
+		.map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+		.join("");
 
-	// If content is already HTML, wrap it in basic Confluence storage format
-	return `<p>${content}</p>`;
+	if (VOID_ELEMENTS.has(node.name)) {
+		return `<${node.name}${attributes} />`;
+	}
+	return `<${node.name}${attributes}>${serializeNodes(node.children)}</${node.name}>`;
 }
 
+/**
+ * Render `<pre><code class="language-x">` as a code macro
+ */
+function renderCodeBlock(code: Element): string {
+	const language = /(?:^|\s)(?:language|lang)-(\S+)/.exec(code.attribs.class ?? "")?.[1];
+	const text = DomUtils.textContent(code).replace(/^\n+|\n+$/g, "");
+	return renderCodeMacro(text, { language: normalizeCodeLanguage(language) });
+}
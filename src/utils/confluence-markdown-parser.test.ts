@@ -83,6 +83,44 @@ describe("confluence-markdown-parser", () => {
 			);
 		});
 
+		it("should set the language parameter of the code macro", () => {
+			const result = convertMarkdownToConfluenceStorage("```c++\nint x;\n```");
+
+			assert.ok(
+				result.includes('<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">cpp</ac:parameter>'),
+				"should map c++ to cpp"
+			);
+		});
+
+		it("should map fence options to code macro parameters", () => {
+			const markdown = '```js title="app.js" linenumbers collapse\nrun();\n```';
+			const result = convertMarkdownToConfluenceStorage(markdown);
+
+			assert.ok(result.includes('<ac:parameter ac:name="language">javascript</ac:parameter>'));
+			assert.ok(result.includes('<ac:parameter ac:name="title">app.js</ac:parameter>'));
+			assert.ok(result.includes('<ac:parameter ac:name="linenumbers">true</ac:parameter>'));
+			assert.ok(result.includes('<ac:parameter ac:name="collapse">true</ac:parameter>'));
+			assert.ok(result.includes("<![CDATA[run();]]>"));
+		});
+
+		it("should render diagram fences with the configured macro", () => {
+			const markdown = "```mermaid\ngraph TD\n  A --> B\n```\n\n```plantuml\nA -> B\n```";
+			const result = convertMarkdownToConfluenceStorage(markdown, {
+				diagrams: { mermaid: { macro: "mermaid-macro" } }
+			});
+
+			assert.ok(
+				result.includes(
+					'<ac:structured-macro ac:name="mermaid-macro"><ac:plain-text-body><![CDATA[graph TD\n  A --> B]]>'
+				),
+				"should use the diagram macro"
+			);
+			assert.ok(
+				result.includes('<ac:parameter ac:name="language">plantuml</ac:parameter>'),
+				"should keep unmapped diagram fences as code macros"
+			);
+		});
+
 		it("should handle code blocks with special characters", () => {
 			const markdown = "```\nif (x < 5 && y > 10) {\n  return \"test\";\n}\n```";
 			const result = convertMarkdownToConfluenceStorage(markdown);
@@ -177,6 +215,136 @@ describe("confluence-markdown-parser", () => {
 		});
 	});
 
+	describe("images", () => {
+		it("should rewrite resolved relative images to attachment images", () => {
+			const markdown = "![diagram](./img/arch.png)";
+			const result = convertMarkdownToConfluenceStorage(markdown, {
+				resolveImage: (src) => (src === "./img/arch.png" ? "arch.png" : undefined)
+			});
+
+			assert.ok(
+				result.includes('<ac:image ac:alt="diagram"><ri:attachment ri:filename="arch.png" /></ac:image>'),
+				"should contain attachment image"
+			);
+			assert.ok(!result.includes("<img"), "should not contain img tag");
+		});
+
+		it("should pass image references to the resolver as written in the HTML", () => {
+			const seen: string[] = [];
+			convertMarkdownToConfluenceStorage("![x](<./my diagram.png>)", {
+				resolveImage: (src) => {
+					seen.push(src);
+					return undefined;
+				}
+			});
+
+			assert.deepEqual(seen, ["./my%20diagram.png"]);
+		});
+
+		it("should leave absolute and unresolved images untouched", () => {
+			const markdown = "![remote](https://example.com/a.png) ![missing](./missing.png)";
+			const result = convertMarkdownToConfluenceStorage(markdown, {
+				resolveImage: () => undefined
+			});
+
+			assert.ok(result.includes('<img src="https://example.com/a.png" alt="remote" />'), "should keep remote image");
+			assert.ok(result.includes('<img src="./missing.png" alt="missing" />'), "should keep unresolved image");
+		});
+	});
+
+	describe("page links", () => {
+		it("should rewrite resolved relative links to page links", () => {
+			const markdown = "[see setup](./setup.md)";
+			const result = convertMarkdownToConfluenceStorage(markdown, {
+				resolveLink: () => ({ pageId: "42", title: "Setup Guide", spaceKey: "DEV" })
+			});
+
+			assert.ok(
+				result.includes(
+					'<ac:link><ri:page ri:space-key="DEV" ri:content-title="Setup Guide" /><ac:link-body>see setup</ac:link-body></ac:link>'
+				),
+				"should contain page link"
+			);
+		});
+
+		it("should keep fragment anchors", () => {
+			const targets: string[] = [];
+			const result = convertMarkdownToConfluenceStorage("[install](./setup.md#install)", {
+				resolveLink: (href) => {
+					targets.push(href);
+					return { pageId: "42" };
+				}
+			});
+
+			assert.deepEqual(targets, ["./setup.md"]);
+			assert.ok(result.includes('<ac:link ac:anchor="install">'), "should contain anchor");
+			assert.ok(result.includes('<ri:page ri:content-id="42" />'), "should fall back to content ID");
+		});
+
+		it("should leave absolute, fragment-only and unresolved links untouched", () => {
+			const markdown = "[a](https://example.com) [b](#top) [c](./other.md)";
+			const result = convertMarkdownToConfluenceStorage(markdown, {
+				resolveLink: () => undefined
+			});
+
+			assert.ok(result.includes('<a href="https://example.com">a</a>'), "should keep absolute link");
+			assert.ok(result.includes('<a href="#top">b</a>'), "should keep fragment link");
+			assert.ok(result.includes('<a href="./other.md">c</a>'), "should keep unresolved link");
+		});
+
+		it("should leave links to pages without a title or ID untouched", () => {
+			const result = convertMarkdownToConfluenceStorage("[page](./page.html)", {
+				resolveLink: () => ({ spaceKey: "DEV" })
+			});
+
+			assert.ok(result.includes('<a href="./page.html">page</a>'), "should keep the link");
+			assert.ok(!result.includes("ri:content-id"));
+		});
+	});
+
+	describe("alerts", () => {
+		it("should convert GitHub alerts to Confluence panels", () => {
+			const cases = [
+				["NOTE", "info", "Note"],
+				["TIP", "tip", "Tip"],
+				["IMPORTANT", "info", "Important"],
+				["WARNING", "note", "Warning"],
+				["CAUTION", "warning", "Caution"]
+			];
+
+			for (const [type, macro, title] of cases) {
+				const result = convertMarkdownToConfluenceStorage(`> [!${type}]\n> Read this.`);
+
+				assert.ok(
+					result.includes(
+						`<ac:structured-macro ac:name="${macro}"><ac:parameter ac:name="title">${title}</ac:parameter><ac:rich-text-body><p>Read this.</p></ac:rich-text-body></ac:structured-macro>`
+					),
+					`should convert ${type} to ${macro} panel`
+				);
+				assert.ok(!result.includes(`[!${type}]`), "should remove the alert marker");
+				assert.ok(!result.includes("<blockquote>"), "should remove the blockquote");
+			}
+		});
+
+		it("should keep block content of alerts", () => {
+			const markdown = "> [!WARNING]\n>\n> First paragraph.\n>\n> - item\n\nAfter.";
+			const result = convertMarkdownToConfluenceStorage(markdown);
+
+			assert.ok(
+				result.includes("<ac:rich-text-body><p>First paragraph.</p>"),
+				"should drop the empty marker paragraph"
+			);
+			assert.ok(result.includes("<li>item</li>"), "should keep the list");
+			assert.ok(result.includes("<p>After.</p>"), "should keep content after the alert");
+		});
+
+		it("should leave regular blockquotes untouched", () => {
+			const result = convertMarkdownToConfluenceStorage("> Just a quote\n\n> [!UNKNOWN]\n> text");
+
+			assert.equal((result.match(/<blockquote>/g) || []).length, 2);
+		});
+	});
+
 	describe("edge cases", () => {
 		it("should handle empty string", () => {
 			const markdown = "";
@@ -1,49 +1,228 @@
-import { marked } from "marked";
+import { Marked } from "marked";
+import { DiagramMacro, parseFenceInfo, renderCodeMacro, renderDiagramMacro } from "./code-macro";
+import { decodeHtmlEntities, escapeXml, parseTagAttributes } from "./xml";
 
+/**
+ * Types for Markdown to Confluence storage format conversion
+ */
+export interface MarkdownParserOptions {
+	/**
+	 * Resolve a relative image reference to the filename of a page attachment.
+	 * Return undefined to leave the image untouched.
+	 */
+	resolveImage?: (src: string) => string | undefined;
+
+	/**
+	 * Resolve a relative link (without its #fragment) to a Confluence page.
+	 * Return undefined to leave the link untouched.
+	 */
+	resolveLink?: (href: string) => PageLinkTarget | undefined;
+
+	/**
+	 * Macros to render diagram fences with, keyed by fence language (e.g. `mermaid`).
+	 * Fences without an entry become code macros.
+	 */
+	diagrams?: Record<string, DiagramMacro>;
+}
+
+/**
+ * Confluence page a relative link points at
+ */
+export interface PageLinkTarget {
+	pageId?: string;
+	title?: string;
+	spaceKey?: string;
+}
+
+/**
+ * Check whether a URL is relative to the current document
+ * (no scheme, not protocol-relative, not root-relative and not a fragment)
+ */
+export function isRelativeReference(url: string): boolean {
+	return !/^[a-z][a-z0-9+.-]*:/i.test(url) && !url.startsWith("/") && !url.startsWith("#");
+}
+
+/**
+ * Create a Markdown parser that renders code blocks directly as Confluence macros:
+ * diagram fences with their configured macro, everything else as a code macro
+ * with the fence language and options mapped onto the macro parameters
+ */
+function createMarkdownParser(diagrams: Record<string, DiagramMacro> = {}): Marked {
+	return new Marked({
+		renderer: {
+			code({ text, lang }) {
+				// Trim leading/trailing newlines
+				const code = text.replace(/^\n+|\n+$/g, "");
+
+				const language = lang?.trim().split(/\s+/)[0].toLowerCase();
+				const diagram = language && Object.hasOwn(diagrams, language) ? diagrams[language] : undefined;
+				if (diagram) {
+					return renderDiagramMacro(code, diagram);
+				}
+
+				return renderCodeMacro(code, parseFenceInfo(lang));
+			}
+		}
+	});
+}
 
 /**
  * Convert Markdown content to Confluence storage format
- * 
+ *
  * Uses the 'marked' library to parse markdown and converts the output
  * to Confluence storage format. Handles:
  * - All standard markdown features (headers, lists, tables, etc.)
- * - Code blocks (converted to Confluence code macro)
+ * - Code blocks (converted to Confluence code macro, keeping the language and fence options)
+ * - Diagram fences (converted to the configured diagram macros)
  * - Inline code
  * - Links, images, and other markdown elements
- * 
+ * - Relative images (converted to attachment images when resolved)
+ * - Relative links to other synced files (converted to page links when resolved)
+ * - GitHub alerts (converted to info/note/tip/warning panels)
+ *
  * @param content - Markdown content to convert
+ * @param options - Parser options
  * @returns HTML content in Confluence storage format
  */
 export function convertMarkdownToConfluenceStorage(
-	content: string
+	content: string,
+	options: MarkdownParserOptions = {}
 ): string {
+	const { resolveImage, resolveLink, diagrams } = options;
+
 	// Parse markdown to HTML using marked
-	let html = marked.parse(content, {
+	let html = createMarkdownParser(diagrams).parse(content, {
 		breaks: false,
 		gfm: true, // GitHub Flavored Markdown
 	}) as string;
 
-	// Convert code blocks from <pre><code> to Confluence's code macro format
-	// This regex matches <pre><code> blocks (with optional language class)
-	html = html.replace(
-		/<pre><code(?:\s+class="language-(\w+)")?>([\s\S]*?)<\/code><\/pre>/g,
-		(_match, _language, code) => {
-			// Decode HTML entities in the code content
-			// Note: Decode &amp; last since it's used to encode the & character
-			const decodedCode = code
-				.replace(/&lt;/g, "<")
-				.replace(/&gt;/g, ">")
-				.replace(/&quot;/g, '"')
-				.replace(/&#39;/g, "'")
-				.replace(/&amp;/g, "&");
-			
-			// Trim leading/trailing newlines
-			const trimmedCode = decodedCode.replace(/^\n+|\n+$/g, "");
-			
-			return `<ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[${trimmedCode}]]></ac:plain-text-body></ac:structured-macro>`;
-		}
-	);
+	html = closeVoidElements(html);
+	html = convertAlerts(html);
+
+	// Convert relative images to Confluence attachment images
+	if (resolveImage) {
+		html = html.replace(/<img\s[^>]*>/g, (tag) => {
+			const attributes = parseTagAttributes(tag);
+			const src = decodeHtmlEntities(attributes.src || "");
+			if (!src || !isRelativeReference(src)) {
+				return tag;
+			}
+
+			const filename = resolveImage(src);
+			if (!filename) {
+				return tag;
+			}
+
+			const alt = attributes.alt ? ` ac:alt="${attributes.alt}"` : "";
+			const title = attributes.title ? ` ac:title="${attributes.title}"` : "";
+			return `<ac:image${alt}${title}><ri:attachment ri:filename="${escapeXml(filename)}" /></ac:image>`;
+		});
+	}
+
+	// Convert relative links to other synced files into Confluence page links
+	if (resolveLink) {
+		html = html.replace(/<a\s([^>]*)>([\s\S]*?)<\/a>/g, (tag, attributeText, body) => {
+			const href = decodeHtmlEntities(parseTagAttributes(attributeText).href || "");
+			if (!href || !isRelativeReference(href)) {
+				return tag;
+			}
+
+			const [target, fragment] = splitFragment(href);
+			// A page without a title or ID can't be linked to, so the link is kept as it is
+			const page = resolveLink(target);
+			if (!page || !(page.title || page.pageId)) {
+				return tag;
+			}
+
+			const anchor = fragment ? ` ac:anchor="${escapeXml(fragment)}"` : "";
+			return `<ac:link${anchor}>${renderPageReference(page)}<ac:link-body>${body}</ac:link-body></ac:link>`;
+		});
+	}
 
 	return html;
 }
 
+/**
+ * Self-close void elements (`<br>` -> `<br />`) so the output is well-formed XHTML,
+ * leaving CDATA sections (code macro bodies) untouched
+ */
+function closeVoidElements(html: string): string {
+	return html
+		.split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+		.map((part, index) =>
+			index % 2 === 1
+				? part
+				: part.replace(/<(area|br|col|embed|hr|img|input|source|track|wbr)(\s[^<>]*?)?\s*\/?>/gi, "<$1$2 />")
+		)
+		.join("");
+}
+
+/**
+ * Confluence panel macro and title for each GitHub alert type
+ */
+export const ALERT_PANELS: Record<string, { macro: string; title: string }> = {
+	NOTE: { macro: "info", title: "Note" },
+	TIP: { macro: "tip", title: "Tip" },
+	IMPORTANT: { macro: "info", title: "Important" },
+	WARNING: { macro: "note", title: "Warning" },
+	CAUTION: { macro: "warning", title: "Caution" }
+};
+
+/**
+ * Convert GitHub alert blockquotes (`> [!NOTE]`) to Confluence panel macros
+ */
+function convertAlerts(html: string): string {
+	const opening = /<blockquote>\s*<p>\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*(?:\n|(?=<\/p>))/i;
+	let result = "";
+	let rest = html;
+	let match: RegExpExecArray | null;
+
+	while ((match = opening.exec(rest)) !== null) {
+		const bodyStart = match.index + match[0].length;
+
+		// Find the matching </blockquote>, skipping nested blockquotes
+		const tags = /<(\/?)blockquote>/g;
+		tags.lastIndex = bodyStart;
+		let depth = 1;
+		let tag: RegExpExecArray | null;
+		while (depth > 0 && (tag = tags.exec(rest)) !== null) {
+			depth += tag[1] ? -1 : 1;
+		}
+		if (depth > 0) {
+			break;
+		}
+
+		const bodyEnd = tags.lastIndex - "</blockquote>".length;
+		const body = `<p>${rest.slice(bodyStart, bodyEnd)}`.replace(/^<p>\s*<\/p>\s*/, "").trim();
+		const panel = ALERT_PANELS[match[1].toUpperCase()];
+
+		result +=
+			rest.slice(0, match.index) +
+			`<ac:structured-macro ac:name="${panel.macro}"><ac:parameter ac:name="title">${panel.title}</ac:parameter>` +
+			`<ac:rich-text-body>${body}</ac:rich-text-body></ac:structured-macro>`;
+		rest = rest.slice(tags.lastIndex);
+	}
+
+	return result + rest;
+}
+
+function splitFragment(href: string): [string, string | undefined] {
+	const index = href.indexOf("#");
+	if (index === -1) {
+		return [href, undefined];
+	}
+	return [href.slice(0, index), href.slice(index + 1) || undefined];
+}
+
+/**
+ * Render an ri:page resource identifier, preferring title and space key
+ * (which Server and Data Center understand) over the content ID
+ */
+function renderPageReference(page: PageLinkTarget): string {
+	if (page.title) {
+		const space = page.spaceKey ? ` ri:space-key="${escapeXml(page.spaceKey)}"` : "";
+		return `<ri:page${space} ri:content-title="${escapeXml(page.title)}" />`;
+	}
+	return `<ri:page ri:content-id="${escapeXml(page.pageId!)}" />`;
+}
+
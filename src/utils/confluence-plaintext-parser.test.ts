@@ -0,0 +1,20 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convertPlainTextToConfluenceStorage } from "./confluence-plaintext-parser.ts";
+
+describe("confluence-plaintext-parser", () => {
+	it("should split paragraphs and keep line breaks", () => {
+		assert.equal(convertPlainTextToConfluenceStorage("one\ntwo\n\nthree"), "<p>one<br/>two</p><p>three</p>");
+	});
+
+	it("should escape XML special characters", () => {
+		assert.equal(
+			convertPlainTextToConfluenceStorage("a < b && c > d", { splitParagraphs: false }),
+			"<p>a &lt; b &amp;&amp; c &gt; d</p>"
+		);
+	});
+
+	it("should handle Windows line endings", () => {
+		assert.equal(convertPlainTextToConfluenceStorage("one\r\n\r\ntwo"), "<p>one</p><p>two</p>");
+	});
+});
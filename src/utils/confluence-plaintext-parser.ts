@@ -1,3 +1,5 @@
+import { escapeXml } from "./xml";
+
 /**
  * Types for Plain text to Confluence storage format conversion
  */
@@ -12,7 +14,7 @@ export interface PlainTextParserOptions {
 /**
  * Convert plain text content to Confluence storage format
  * 
- * Plain text is wrapped in paragraphs and handles line breaks.
+ * Plain text is escaped, wrapped in paragraphs and handles line breaks.
  * Content is split into paragraphs based on double newlines.
  * 
  * @param content - Plain text content to convert
@@ -24,14 +26,15 @@ export function convertPlainTextToConfluenceStorage(
 	options: PlainTextParserOptions = {}
 ): string {
 	const { splitParagraphs = true } = options;
+	const text = escapeXml(content.replace(/\r\n/g, "\n"));
 
 	if (!splitParagraphs) {
 		// Just wrap the entire content in a paragraph and replace newlines with <br/>
-		return `<p>${content.replace(/\n/g, "<br/>")}</p>`;
+		return `<p>${text.replace(/\n/g, "<br/>")}</p>`;
 	}
 
 	// Plain text - wrap in paragraphs and handle line breaks
-	const paragraphs = content
+	const paragraphs = text
 		.split("\n\n")
 		.map((p) => p.trim())
 		.filter((p) => p.length > 0);
@@ -0,0 +1,161 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convertStorageToMarkdown } from "./confluence-storage-parser.ts";
+import { convertMarkdownToConfluenceStorage } from "./confluence-markdown-parser.ts";
+import { renderEditableMarkers } from "./editable-regions.ts";
+import { addBanner, createBannerContext } from "./banner.ts";
+
+describe("confluence-storage-parser", () => {
+	describe("convertStorageToMarkdown", () => {
+		it("should convert text formatting, headings and lists", () => {
+			const storage =
+				"<h2>Setup</h2><p>Some <strong>bold</strong>, <em>em</em>, <del>old</del> and <code>a`b</code> text.</p>" +
+				'<ul><li>one</li><li>two<ul><li>nested</li></ul></li></ul><ol start="3"><li>three</li></ol>';
+
+			assert.equal(
+				convertStorageToMarkdown(storage),
+				"## Setup\n\nSome **bold**, *em*, ~~old~~ and ``a`b`` text.\n\n- one\n- two\n  - nested\n\n3. three\n"
+			);
+		});
+
+		it("should escape text that would read as Markdown", () => {
+			const storage = "<p>Use *stars*, [brackets], &lt;tags&gt; and snake_case names</p><p>- not a list</p>";
+
+			assert.equal(
+				convertStorageToMarkdown(storage),
+				"Use \\*stars\\*, \\[brackets\\], \\<tags> and snake_case names\n\n\\- not a list\n"
+			);
+		});
+
+		it("should convert code macros to fences with their options", () => {
+			const storage =
+				'<ac:structured-macro ac:name="code" ac:schema-version="1">' +
+				'<ac:parameter ac:name="language">typescript</ac:parameter><ac:parameter ac:name="title">app.ts</ac:parameter>' +
+				'<ac:parameter ac:name="collapse">true</ac:parameter>' +
+				"<ac:plain-text-body><![CDATA[const a = `x`;\n  return a < b;]]></ac:plain-text-body></ac:structured-macro>" +
+				'<ac:structured-macro ac:name="noformat"><ac:plain-text-body><![CDATA[```\nraw]]></ac:plain-text-body></ac:structured-macro>';
+
+			assert.equal(
+				convertStorageToMarkdown(storage),
+				'```typescript title="app.ts" collapse\nconst a = `x`;\n  return a < b;\n```\n\n````\n```\nraw\n````\n'
+			);
+		});
+
+		it("should convert diagram macros to fences of the configured language", () => {
+			const storage =
+				'<ac:structured-macro ac:name="plantuml"><ac:parameter ac:name="source">A -&gt; B</ac:parameter></ac:structured-macro>';
+
+			const result = convertStorageToMarkdown(storage, {
+				diagrams: { puml: { macro: "plantuml", body: "parameter" } }
+			});
+
+			assert.equal(result, "```puml\nA -> B\n```\n");
+		});
+
+		it("should convert panels to GitHub alerts", () => {
+			const storage =
+				'<ac:structured-macro ac:name="note"><ac:parameter ac:name="title">Warning</ac:parameter>' +
+				"<ac:rich-text-body><p>Careful <strong>now</strong></p></ac:rich-text-body></ac:structured-macro>" +
+				'<ac:structured-macro ac:name="info"><ac:parameter ac:name="title">Heads up</ac:parameter>' +
+				"<ac:rich-text-body><p>Read this</p></ac:rich-text-body></ac:structured-macro>";
+
+			assert.equal(
+				convertStorageToMarkdown(storage),
+				"> [!WARNING]\n> Careful **now**\n\n> [!NOTE]\n> **Heads up**\n>\n> Read this\n"
+			);
+		});
+
+		it("should leave out the auto-generated banner", () => {
+			const storage = addBanner("<p>Content</p>", createBannerContext("docs/guide.md", {}));
+
+			assert.equal(convertStorageToMarkdown(storage), "Content\n");
+		});
+
+		it("should leave out the prefix and a custom banner", () => {
+			const storage = addBanner("<p>Content</p>", createBannerContext("docs/guide.md", {}), {
+				prefix: "Do not edit",
+				position: "bottom",
+				text: "Synced from **{file}**"
+			});
+
+			assert.equal(convertStorageToMarkdown(storage), "Content\n");
+		});
+
+		it("should convert page links, attachments and images", () => {
+			const storage =
+				'<p><ac:link ac:anchor="usage"><ri:page ri:space-key="DOC" ri:content-title="Guide" />' +
+				"<ac:link-body>the guide</ac:link-body></ac:link>, " +
+				'<ac:link><ri:page ri:content-title="Elsewhere" /><ac:plain-text-link-body><![CDATA[elsewhere]]></ac:plain-text-link-body></ac:link>, ' +
+				'<ac:link><ri:attachment ri:filename="report.pdf" /></ac:link> and ' +
+				'<ac:image ac:alt="Diagram" ac:title="Flow"><ri:attachment ri:filename="flow chart.png" /></ac:image></p>';
+
+			const result = convertStorageToMarkdown(storage, {
+				resolvePageLink: (page) => (page.title === "Guide" ? "../guide.md" : undefined),
+				resolveAttachment: (filename) => `images/${filename}`
+			});
+
+			assert.equal(
+				result,
+				"[the guide](../guide.md#usage), elsewhere, [report.pdf](images/report.pdf) and " +
+					'![Diagram](<images/flow chart.png> "Flow")\n'
+			);
+		});
+
+		it("should convert tables", () => {
+			const storage =
+				'<table><tbody><tr><th>Name</th><th style="text-align: right">Size</th></tr>' +
+				"<tr><td><p>a | b</p><p>second</p></td><td>1</td></tr></tbody></table>";
+
+			assert.equal(convertStorageToMarkdown(storage), "| Name | Size |\n| --- | ---: |\n| a \\| b<br>second | 1 |\n");
+		});
+
+		it("should convert task lists", () => {
+			const storage =
+				"<ac:task-list><ac:task><ac:task-id>1</ac:task-id><ac:task-status>complete</ac:task-status>" +
+				"<ac:task-body>Done</ac:task-body></ac:task><ac:task><ac:task-id>2</ac:task-id>" +
+				"<ac:task-status>incomplete</ac:task-status><ac:task-body>Todo</ac:task-body></ac:task></ac:task-list>";
+
+			assert.equal(convertStorageToMarkdown(storage), "- [x] Done\n- [ ] Todo\n");
+		});
+
+		it("should turn editable region anchors back into marker comments", () => {
+			const storage = renderEditableMarkers(
+				"<p>Intro</p><!-- editable:start status --><p>Draft</p><!-- editable:end status -->"
+			);
+
+			assert.equal(
+				convertStorageToMarkdown(storage),
+				"Intro\n\n<!-- editable:start status -->\n\nDraft\n\n<!-- editable:end status -->\n"
+			);
+		});
+
+		it("should keep the body of unknown macros and name the others", () => {
+			const storage =
+				'<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">More</ac:parameter>' +
+				'<ac:rich-text-body><p>Hidden</p></ac:rich-text-body></ac:structured-macro><p><ac:structured-macro ac:name="toc" /></p>';
+
+			assert.equal(convertStorageToMarkdown(storage), "Hidden\n\n<!-- Confluence macro: toc -->\n");
+		});
+
+		it("should convert the output of the Markdown converter back to the same storage format", () => {
+			const markdown = [
+				"# Guide",
+				"Text with **bold**, *em*, `code` and a [link](https://example.com).\nSecond line.",
+				"- one\n- two\n  - nested",
+				"> [!TIP]\n> Try it",
+				'```js title="a.js"\nconst a = 1;\n```',
+				"| A | B |\n| :---: | --- |\n| 1 | 2 |",
+				"![Logo](logo.png) and [the setup](setup.md#install)"
+			].join("\n\n");
+			const options = {
+				resolveImage: (src: string) => src,
+				resolveLink: () => ({ title: "Setup", spaceKey: "DOC" })
+			};
+			const storage = convertMarkdownToConfluenceStorage(markdown, options);
+
+			const result = convertStorageToMarkdown(storage, { resolvePageLink: () => "setup.md" });
+
+			assert.equal(convertMarkdownToConfluenceStorage(result, options), storage);
+		});
+	});
+});
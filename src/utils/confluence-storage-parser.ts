@@ -0,0 +1,589 @@
+import { isCDATA, isTag, isText, type ChildNode, type Element } from "domhandler";
+import { DomUtils, parseDocument } from "htmlparser2";
+import type { DiagramMacro } from "./code-macro";
+import { GENERATED_ANCHOR } from "./banner";
+import { ALERT_PANELS, type PageLinkTarget } from "./confluence-markdown-parser";
+import { editableMarkerFromAnchor } from "./editable-regions";
+
+/**
+ * Types for Confluence storage format to Markdown conversion
+ */
+export interface StorageParserOptions {
+	/**
+	 * Resolve a page link to the (relative) path of the file it was synced from.
+	 * Return undefined to keep only the link text.
+	 */
+	resolvePageLink?: (page: PageLinkTarget) => string | undefined;
+
+	/**
+	 * Resolve the filename of a page attachment to the path images and links point at
+	 * @default The filename itself
+	 */
+	resolveAttachment?: (filename: string) => string;
+
+	/**
+	 * Diagram macros, keyed by fence language, that are turned back into diagram fences
+	 */
+	diagrams?: Record<string, DiagramMacro>;
+}
+
+/**
+ * Elements that are rendered as Markdown blocks; everything else is inline
+ */
+const BLOCK_ELEMENTS = new Set([
+	"ac:layout",
+	"ac:layout-cell",
+	"ac:layout-section",
+	"ac:task-list",
+	"blockquote",
+	"div",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"hr",
+	"ol",
+	"p",
+	"pre",
+	"table",
+	"ul"
+]);
+
+/**
+ * Panel macros that GitHub alerts are converted to
+ */
+const PANEL_MACROS = new Set(Object.values(ALERT_PANELS).map((panel) => panel.macro));
+
+/**
+ * Text of the default auto-generated banner, which is left out of the Markdown
+ * even on pages synced before the banner was marked as generated
+ */
+const BANNER_MARKER = "Auto-Generated File";
+
+/**
+ * Convert Confluence storage format back to GitHub Flavored Markdown
+ *
+ * The reverse of {@link convertMarkdownToConfluenceStorage}. Handles:
+ * - Headings, paragraphs, emphasis, lists, task lists, block quotes and tables
+ * - Code and noformat macros (converted to fences, keeping the language and code macro options)
+ * - Diagram macros (converted to fences of the configured language)
+ * - Info/note/tip/warning panels (converted to GitHub alerts)
+ * - Page, attachment and URL links and attachment images
+ * - Editable region anchors (converted to marker comments)
+ *
+ * The prefix and the banner added by the sync are dropped. Other macros keep the content of
+ * their body, or are replaced by an HTML comment naming the macro.
+ *
+ * @param storage - Page content in Confluence storage format
+ * @param options - Parser options
+ * @returns Markdown content, ending with a newline unless it is empty
+ */
+export function convertStorageToMarkdown(storage: string, options: StorageParserOptions = {}): string {
+	const document = parseDocument(storage, {
+		recognizeCDATA: true,
+		recognizeSelfClosing: true,
+		lowerCaseTags: false,
+		lowerCaseAttributeNames: false
+	});
+	const markdown = renderBlocks(document.children, options);
+	return markdown ? `${markdown}\n` : "";
+}
+
+/**
+ * Render nodes as Markdown blocks, grouping runs of text and inline elements into paragraphs
+ */
+function renderBlocks(nodes: ChildNode[], options: StorageParserOptions, separator = "\n\n"): string {
+	const blocks: string[] = [];
+	let inline: ChildNode[] = [];
+
+	const flush = () => {
+		blocks.push(renderParagraph(inline, options));
+		inline = [];
+	};
+
+	for (const node of nodes) {
+		if (isBlock(node, options)) {
+			flush();
+			blocks.push(renderBlock(node, options));
+		} else {
+			inline.push(node);
+		}
+	}
+	flush();
+
+	return blocks.filter(Boolean).join(separator);
+}
+
+function isBlock(node: ChildNode, options: StorageParserOptions): node is Element {
+	if (!isTag(node)) {
+		return false;
+	}
+	if (node.name === "ac:structured-macro") {
+		// Macros with a body take up a block of their own, as do diagrams keeping their source in a parameter
+		const name = getMacroName(node);
+		return (
+			node.children.some((child) => isTag(child) && child.name !== "ac:parameter") ||
+			["code", "noformat"].includes(name) ||
+			PANEL_MACROS.has(name) ||
+			Object.values(options.diagrams ?? {}).some((diagram) => diagram.macro === name)
+		);
+	}
+	return BLOCK_ELEMENTS.has(node.name);
+}
+
+function renderBlock(node: Element, options: StorageParserOptions): string {
+	switch (node.name) {
+		case "h1":
+		case "h2":
+		case "h3":
+		case "h4":
+		case "h5":
+		case "h6": {
+			const text = renderInline(node.children, options)
+				.replace(/\\?\s*\n\s*/g, " ")
+				.trim();
+			return text ? `${"#".repeat(Number(node.name[1]))} ${text}` : "";
+		}
+		case "p":
+			if (isGenerated(node)) {
+				return "";
+			}
+			// Confluence wraps macros in paragraphs, e.g. the banner
+			return node.children.some((child) => isBlock(child, options))
+				? renderBlocks(node.children, options)
+				: renderParagraph(node.children, options);
+		case "ul":
+		case "ol":
+			return renderList(node, options);
+		case "ac:task-list":
+			return renderTaskList(node, options);
+		case "blockquote":
+			return quote(renderBlocks(node.children, options));
+		case "pre":
+			return renderFence(DomUtils.textContent(node).replace(/^\n+|\n+$/g, ""), "");
+		case "hr":
+			return "---";
+		case "table":
+			return renderTable(node, options);
+		case "ac:structured-macro":
+			return renderMacro(node, options);
+		default:
+			return renderBlocks(node.children, options);
+	}
+}
+
+/**
+ * Check whether a paragraph is the prefix or the banner, which start with the generated anchor
+ */
+function isGenerated(paragraph: Element): boolean {
+	const first = paragraph.children.find((child) => !isText(child) || child.data.trim() !== "");
+	return (
+		first !== undefined &&
+		isTag(first) &&
+		first.name === "ac:structured-macro" &&
+		getMacroName(first) === "anchor" &&
+		getMacroParameters(first)[""]?.trim() === GENERATED_ANCHOR
+	);
+}
+
+/**
+ * Render inline nodes as a paragraph, escaping what would otherwise start a block
+ */
+function renderParagraph(nodes: ChildNode[], options: StorageParserOptions): string {
+	return renderInline(nodes, options)
+		.trim()
+		.replace(/^([#>+-])(?=[ \t]|$)/gm, "\\$1")
+		.replace(/^(\d+)([.)])(?=[ \t]|$)/gm, "$1\\$2");
+}
+
+function renderInline(nodes: ChildNode[], options: StorageParserOptions, inTable = false): string {
+	return nodes.map((node) => renderInlineNode(node, options, inTable)).join("");
+}
+
+function renderInlineNode(node: ChildNode, options: StorageParserOptions, inTable: boolean): string {
+	if (isText(node)) {
+		return escapeMarkdown(node.data.replace(/[ \t\r]*\n[ \t\r]*/g, "\n").replace(/[ \t]+/g, " "));
+	}
+	if (isCDATA(node)) {
+		return escapeMarkdown(DomUtils.textContent(node));
+	}
+	if (!isTag(node)) {
+		return "";
+	}
+
+	const content = () => renderInline(node.children, options, inTable);
+	switch (node.name) {
+		case "strong":
+		case "b":
+			return wrapInline(content(), "**");
+		case "em":
+		case "i":
+			return wrapInline(content(), "*");
+		case "del":
+		case "s":
+		case "strike":
+			return wrapInline(content(), "~~");
+		case "sub":
+		case "sup":
+			return `<${node.name}>${content()}</${node.name}>`;
+		case "code":
+			return renderCodeSpan(DomUtils.textContent(node));
+		case "br":
+			return inTable ? "<br>" : "\\\n";
+		case "a":
+			return renderLink(content(), node.attribs.href ?? "", node.attribs.title);
+		case "img":
+			return renderImage(node.attribs.src ?? "", node.attribs.alt, node.attribs.title);
+		case "input":
+			return node.attribs.type === "checkbox" ? (node.attribs.checked !== undefined ? "[x]" : "[ ]") : "";
+		case "time":
+			return escapeMarkdown(node.attribs.datetime ?? DomUtils.textContent(node));
+		case "ac:link":
+			return renderConfluenceLink(node, options, inTable);
+		case "ac:image":
+			return renderConfluenceImage(node, options);
+		case "ac:emoticon":
+			return node.attribs["ac:emoji-fallback"] ?? "";
+		case "ac:structured-macro":
+			return renderInlineMacro(node, options, inTable);
+		case "ac:placeholder":
+		case "ac:parameter":
+			return "";
+		default:
+			return content();
+	}
+}
+
+/**
+ * Wrap inline Markdown in emphasis markers, keeping surrounding whitespace outside of them
+ */
+function wrapInline(content: string, marker: string): string {
+	const [, leading, text, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+	return text ? `${leading}${marker}${text}${marker}${trailing}` : content;
+}
+
+function renderCodeSpan(code: string): string {
+	const fence = "`".repeat(longestRun(code, "`") + 1);
+	const padding = code.startsWith("`") || code.endsWith("`") ? " " : "";
+	return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function renderLink(text: string, href: string, title?: string): string {
+	if (!href) {
+		return text;
+	}
+	if (text === escapeMarkdown(href) && /^https?:\/\//.test(href) && !title) {
+		return `<${href}>`;
+	}
+	return `[${text || escapeMarkdown(href)}](${formatDestination(href, title)})`;
+}
+
+function renderImage(src: string, alt?: string, title?: string): string {
+	return `![${escapeMarkdown(alt ?? "")}](${formatDestination(src, title)})`;
+}
+
+/**
+ * Format a link destination, with angle brackets when it contains spaces or parentheses
+ */
+function formatDestination(url: string, title?: string): string {
+	const destination = /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+	return title ? `${destination} "${title.replace(/"/g, '\\"')}"` : destination;
+}
+
+/**
+ * Render an `ac:link` to a page, attachment or URL, keeping only its text when the target can't be resolved
+ */
+function renderConfluenceLink(link: Element, options: StorageParserOptions, inTable: boolean): string {
+	const resource = link.children.find((child): child is Element => isTag(child) && child.name.startsWith("ri:"));
+	const anchor = link.attribs["ac:anchor"];
+	const fragment = anchor ? `#${anchor}` : "";
+
+	let href: string | undefined;
+	let fallback = anchor ?? "";
+	switch (resource?.name) {
+		case "ri:page":
+			href = options.resolvePageLink?.({
+				pageId: resource.attribs["ri:content-id"],
+				title: resource.attribs["ri:content-title"],
+				spaceKey: resource.attribs["ri:space-key"]
+			});
+			href = href === undefined ? undefined : href + fragment;
+			fallback = resource.attribs["ri:content-title"] ?? fallback;
+			break;
+		case "ri:attachment":
+			href = resolveAttachment(resource.attribs["ri:filename"] ?? "", options);
+			fallback = resource.attribs["ri:filename"] ?? fallback;
+			break;
+		case "ri:url":
+			href = resource.attribs["ri:value"];
+			fallback = href ?? fallback;
+			break;
+		case undefined:
+			href = fragment || undefined;
+			break;
+	}
+
+	const body = link.children.find(
+		(child): child is Element =>
+			isTag(child) && (child.name === "ac:link-body" || child.name === "ac:plain-text-link-body")
+	);
+	const text = body
+		? body.name === "ac:link-body"
+			? renderInline(body.children, options, inTable)
+			: escapeMarkdown(DomUtils.textContent(body))
+		: escapeMarkdown(fallback);
+
+	return href ? renderLink(text, href) : text;
+}
+
+/**
+ * Render an `ac:image` of a page attachment or URL
+ */
+function renderConfluenceImage(image: Element, options: StorageParserOptions): string {
+	const resource = image.children.find((child): child is Element => isTag(child) && child.name.startsWith("ri:"));
+	let src = "";
+	if (resource?.name === "ri:attachment") {
+		src = resolveAttachment(resource.attribs["ri:filename"] ?? "", options);
+	} else if (resource?.name === "ri:url") {
+		src = resource.attribs["ri:value"] ?? "";
+	}
+	return src ? renderImage(src, image.attribs["ac:alt"], image.attribs["ac:title"]) : "";
+}
+
+function resolveAttachment(filename: string, options: StorageParserOptions): string {
+	return options.resolveAttachment ? options.resolveAttachment(filename) : filename;
+}
+
+function renderList(list: Element, options: StorageParserOptions): string {
+	const items = list.children.filter((child): child is Element => isTag(child) && child.name === "li");
+	const loose = items.some((item) => item.children.some((child) => isTag(child) && child.name === "p"));
+	const start = Number(list.attribs.start ?? 1) || 1;
+
+	return items
+		.map((item, index) => {
+			const marker = list.name === "ol" ? `${start + index}. ` : "- ";
+			return indentItem(marker, renderBlocks(item.children, options, loose ? "\n\n" : "\n"));
+		})
+		.join(loose ? "\n\n" : "\n");
+}
+
+function renderTaskList(list: Element, options: StorageParserOptions): string {
+	return list.children
+		.filter((child): child is Element => isTag(child) && child.name === "ac:task")
+		.map((task) => {
+			const status = findChild(task, "ac:task-status");
+			const body = findChild(task, "ac:task-body");
+			const checked = status && DomUtils.textContent(status).trim() === "complete" ? "x" : " ";
+			return indentItem(`- [${checked}] `, body ? renderBlocks(body.children, options, "\n") : "");
+		})
+		.join("\n");
+}
+
+/**
+ * Prefix the content of a list item with its marker, indenting the lines that follow to match
+ */
+function indentItem(marker: string, content: string): string {
+	const indent = " ".repeat(marker.length);
+	return (marker + content.replace(/\n(?!\n|$)/g, `\n${indent}`)).trimEnd();
+}
+
+function quote(content: string): string {
+	return content
+		.split("\n")
+		.map((line) => (line ? `> ${line}` : ">"))
+		.join("\n");
+}
+
+function renderTable(table: Element, options: StorageParserOptions): string {
+	const rows = DomUtils.findAll((element) => element.name === "tr", table.children);
+	if (rows.length === 0) {
+		return "";
+	}
+
+	const cells = rows.map((row) =>
+		row.children.filter((child): child is Element => isTag(child) && (child.name === "th" || child.name === "td"))
+	);
+	const columns = Math.max(...cells.map((row) => row.length));
+	const renderRow = (row: Element[]) =>
+		`| ${Array.from({ length: columns }, (_, index) => (row[index] ? renderCell(row[index], options) : "")).join(" | ")} |`;
+	const alignments = Array.from({ length: columns }, (_, index) => {
+		const cell = cells[0][index];
+		const align = cell?.attribs.align ?? /text-align:\s*(\w+)/.exec(cell?.attribs.style ?? "")?.[1];
+		return align === "center" ? ":---:" : align === "right" ? "---:" : align === "left" ? ":---" : "---";
+	});
+
+	return [renderRow(cells[0]), `| ${alignments.join(" | ")} |`, ...cells.slice(1).map(renderRow)].join("\n");
+}
+
+/**
+ * Render a table cell on a single line, joining its paragraphs with line breaks
+ */
+function renderCell(cell: Element, options: StorageParserOptions): string {
+	const blocks = cell.children.map((child) =>
+		renderInline(isBlock(child, options) ? child.children : [child], options, true)
+	);
+
+	return blocks
+		.map((block) => block.replace(/\s*\n\s*/g, " ").trim())
+		.filter(Boolean)
+		.join("<br>")
+		.replace(/\|/g, "\\|");
+}
+
+function renderMacro(macro: Element, options: StorageParserOptions): string {
+	const name = getMacroName(macro);
+	const parameters = getMacroParameters(macro);
+
+	if (name === "code" || name === "noformat") {
+		const info = name === "code" ? formatFenceInfo(parameters) : "";
+		return renderFence(getPlainTextBody(macro), info);
+	}
+
+	const diagram = Object.entries(options.diagrams ?? {}).find(([, diagram]) => diagram.macro === name);
+	if (diagram) {
+		return renderFence(getDiagramSource(macro, diagram[1], parameters), diagram[0]);
+	}
+
+	const body = findChild(macro, "ac:rich-text-body");
+	if (PANEL_MACROS.has(name)) {
+		return renderPanel(name, parameters.title, body, options);
+	}
+	if (body) {
+		return renderBlocks(body.children, options);
+	}
+	const plainText = findChild(macro, "ac:plain-text-body");
+	if (plainText) {
+		return renderFence(getPlainTextBody(macro), "");
+	}
+
+	return renderInlineMacro(macro, options, false);
+}
+
+/**
+ * Render a macro in running text: editable region anchors as their marker comment,
+ * other anchors not at all, and other macros as the text of their body or a comment
+ */
+function renderInlineMacro(macro: Element, options: StorageParserOptions, inTable: boolean): string {
+	const name = getMacroName(macro);
+	if (name === "anchor") {
+		return editableMarkerFromAnchor(getMacroParameters(macro)[""] ?? "") ?? "";
+	}
+
+	const body = findChild(macro, "ac:rich-text-body");
+	return body ? renderInline(body.children, options, inTable) : `<!-- Confluence macro: ${name} -->`;
+}
+
+/**
+ * Render an info/note/tip/warning panel as a GitHub alert
+ *
+ * The alert type whose panel matches the macro and title is used. Titles that
+ * don't match any alert become a bold first line. The default auto-generated
+ * banner, a panel without title, is left out.
+ */
+function renderPanel(
+	macro: string,
+	title: string | undefined,
+	body: Element | undefined,
+	options: StorageParserOptions
+): string {
+	if (title === undefined && body && DomUtils.textContent(body).includes(BANNER_MARKER)) {
+		return "";
+	}
+	const content = body ? renderBlocks(body.children, options) : "";
+
+	const types = Object.entries(ALERT_PANELS).filter(([, panel]) => panel.macro === macro);
+	const [type, panel] = types.find(([, panel]) => panel.title === title) ?? types[0];
+	const heading = title && title !== panel.title ? `**${escapeMarkdown(title)}**` : "";
+
+	return quote([`[!${type}]`, heading, heading && content ? `\n${content}` : content].filter(Boolean).join("\n"));
+}
+
+/**
+ * Format the code macro parameters as a fence info string, e.g. `ts title="app.ts" linenumbers`
+ */
+function formatFenceInfo(parameters: Record<string, string>): string {
+	const options = [
+		parameters.title && `title="${parameters.title.replace(/"/g, "'")}"`,
+		parameters.linenumbers === "true" && "linenumbers",
+		parameters.collapse === "true" && "collapse"
+	].filter(Boolean);
+	// The first word of the info string is always the language
+	const language = parameters.language || (options.length > 0 ? "text" : "");
+	return [language, ...options].filter(Boolean).join(" ");
+}
+
+function renderFence(code: string, info: string): string {
+	const fence = "`".repeat(Math.max(3, longestRun(code, "`") + 1));
+	return `${fence}${info}\n${code}\n${fence}`;
+}
+
+function getDiagramSource(macro: Element, diagram: DiagramMacro, parameters: Record<string, string>): string {
+	switch (diagram.body ?? "plain-text") {
+		case "plain-text":
+			return getPlainTextBody(macro);
+		case "rich-text": {
+			const body = findChild(macro, "ac:rich-text-body");
+			return body ? textWithLineBreaks(body.children).trim() : "";
+		}
+		case "parameter":
+			return parameters[diagram.bodyParameter ?? "source"] ?? "";
+	}
+}
+
+/**
+ * Get the text of nodes, turning `<br />` and paragraph ends into line breaks
+ */
+function textWithLineBreaks(nodes: ChildNode[]): string {
+	return nodes
+		.map((node) => {
+			if (!isTag(node)) {
+				return DomUtils.textContent(node);
+			}
+			if (node.name === "br") {
+				return "\n";
+			}
+			const text = textWithLineBreaks(node.children);
+			return node.name === "p" ? `${text}\n` : text;
+		})
+		.join("");
+}
+
+function getPlainTextBody(macro: Element): string {
+	const body = findChild(macro, "ac:plain-text-body");
+	return body ? DomUtils.textContent(body).replace(/^\n+|\n+$/g, "") : "";
+}
+
+function getMacroName(macro: Element): string {
+	return macro.attribs["ac:name"] ?? "";
+}
+
+function getMacroParameters(macro: Element): Record<string, string> {
+	return Object.fromEntries(
+		macro.children
+			.filter((child): child is Element => isTag(child) && child.name === "ac:parameter")
+			.map((parameter) => [parameter.attribs["ac:name"] ?? "", DomUtils.textContent(parameter)])
+	);
+}
+
+function findChild(element: Element, name: string): Element | undefined {
+	return element.children.find((child): child is Element => isTag(child) && child.name === name);
+}
+
+function longestRun(text: string, character: string): number {
+	return Math.max(0, ...(text.match(new RegExp(`\\${character}+`, "g")) ?? []).map((run) => run.length));
+}
+
+/**
+ * Escape text so it isn't read as Markdown syntax
+ *
+ * Underscores inside words, e.g. in `snake_case`, don't start emphasis and are left alone.
+ */
+function escapeMarkdown(text: string): string {
+	return text
+		.replace(/[\\`*[\]]|<(?=[\w/!?])/g, "\\$&")
+		.replace(/(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu, "\\_")
+		.replace(/~~/g, "\\~\\~")
+		.replace(/&(?=#?\w+;)/g, "&amp;");
+}
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ConfluencePage } from "../confluence-api.ts";
+import { describeDrift, detectDrift, hashOwnedContent } from "./drift.ts";
+
+const anchor = (name: string) =>
+	`<p><ac:structured-macro ac:name="anchor" ac:schema-version="1">` +
+	`<ac:parameter ac:name="">happi-editable-${name}</ac:parameter></ac:structured-macro></p>`;
+
+const createPage = (body: string, version: number): ConfluencePage => ({
+	id: "1",
+	type: "page",
+	status: "current",
+	title: "Guide",
+	body: { storage: { value: body, representation: "storage" } },
+	version: { number: version, by: { displayName: "Jane Doe" }, when: "2024-05-01T12:00:00.000Z" }
+});
+
+describe("drift", () => {
+	it("should not report pages at the synced version or without sync state", () => {
+		assert.equal(detectDrift(createPage("<p>A</p>", 7), { contentHash: "x", version: 7 }), undefined);
+		assert.equal(detectDrift(createPage("<p>A</p>", 7), undefined), undefined);
+	});
+
+	it("should report newer versions with their author", () => {
+		assert.deepEqual(detectDrift(createPage("<p>A</p>", 9), { contentHash: "x", version: 7 }), {
+			version: 9,
+			syncedVersion: 7,
+			editedBy: "Jane Doe",
+			editedAt: "2024-05-01T12:00:00.000Z"
+		});
+	});
+
+	it("should ignore edits to editable regions only", () => {
+		const synced = `<h1>Guide</h1>${anchor("status-start")}<p>Open</p>${anchor("status-end")}`;
+		const state = { contentHash: "x", version: 7, pageHash: hashOwnedContent("Guide", synced) };
+
+		assert.equal(detectDrift(createPage(synced.replace("Open", "Approved"), 8), state), undefined);
+		assert.ok(detectDrift(createPage(synced.replace("<h1>Guide", "<h1>Our guide"), 8), state));
+	});
+
+	it("should describe the edit", () => {
+		assert.equal(
+			describeDrift({ version: 9, syncedVersion: 7, editedBy: "Jane Doe" }),
+			"edited by Jane Doe (version 9, last synced version 7)"
+		);
+		assert.equal(describeDrift({ version: 9, syncedVersion: 7 }), "edited (version 9, last synced version 7)");
+	});
+});
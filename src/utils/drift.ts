@@ -0,0 +1,64 @@
+import type { ConfluencePage } from "../confluence-api";
+import type { PageDrift } from "../types";
+import { findEditableRegions } from "./editable-regions";
+import { hashPageContent, type SyncState } from "./sync-state";
+
+/**
+ * Thrown when the drift policy is `fail` and a page was edited in Confluence since the last sync
+ */
+export class PageDriftError extends Error {
+	constructor(
+		message: string,
+		public readonly drift: PageDrift
+	) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
+
+/**
+ * Hash a page as stored by Confluence, leaving out the content of its editable regions
+ * @param title - Page title
+ * @param body - Storage format body returned by Confluence
+ */
+export function hashOwnedContent(title: string, body: string): string {
+	const regions = [...findEditableRegions(body).values()].sort((a, b) => b.start - a.start);
+	const owned = regions.reduce((content, region) => content.slice(0, region.start) + content.slice(region.end), body);
+	return hashPageContent(title, owned);
+}
+
+/**
+ * Check whether a page was edited in Confluence since the last sync
+ *
+ * Any version after the one the last sync created counts as an edit, except
+ * when the page records a {@link SyncState.pageHash} and only its editable
+ * regions changed.
+ *
+ * @param page - Current page
+ * @param state - State stored by the last sync, if any
+ * @returns The edit, or undefined when the page is as the last sync left it
+ */
+export function detectDrift(page: ConfluencePage, state: SyncState | undefined): PageDrift | undefined {
+	if (!state || state.version === page.version.number) {
+		return undefined;
+	}
+	if (state.pageHash && state.pageHash === hashOwnedContent(page.title, page.body.storage.value)) {
+		return undefined;
+	}
+
+	const { by, when } = page.version;
+	return {
+		version: page.version.number,
+		syncedVersion: state.version,
+		editedBy: by?.displayName ?? by?.publicName ?? by?.username,
+		editedAt: when
+	};
+}
+
+/**
+ * Describe who edited a page, e.g. `edited by Jane Doe (version 9, last synced version 7)`
+ */
+export function describeDrift(drift: PageDrift): string {
+	const author = drift.editedBy ? ` by ${drift.editedBy}` : "";
+	return `edited${author} (version ${drift.version}, last synced version ${drift.syncedVersion})`;
+}
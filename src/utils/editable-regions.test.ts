@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+	findEditableRegions,
+	isEditableMarker,
+	preserveEditableRegions,
+	renderEditableMarkers
+} from "./editable-regions.ts";
+import { convertMarkdownToConfluenceStorage } from "./confluence-markdown-parser.ts";
+
+const anchor = (name: string) =>
+	`<p><ac:structured-macro ac:name="anchor" ac:schema-version="1">` +
+	`<ac:parameter ac:name="">happi-editable-${name}</ac:parameter></ac:structured-macro></p>`;
+
+// Storage format as Confluence returns it after the page was edited
+const edited =
+	"<h1>Old heading</h1>" +
+	'<p><ac:structured-macro ac:name="anchor" ac:schema-version="1" ac:macro-id="abc">' +
+	'<ac:parameter ac:name="">happi-editable-status-start</ac:parameter></ac:structured-macro></p>' +
+	"<p>Status: <strong>in review</strong></p>" +
+	'<p><ac:structured-macro ac:name="anchor" ac:schema-version="1" ac:macro-id="def">' +
+	'<ac:parameter ac:name="">happi-editable-status-end</ac:parameter></ac:structured-macro></p>';
+
+describe("editable-regions", () => {
+	it("should recognize marker comments", () => {
+		assert.ok(isEditableMarker(" editable:start status "));
+		assert.ok(isEditableMarker("editable:end release-notes"));
+		assert.ok(!isEditableMarker(" a regular comment "));
+	});
+
+	it("should render the markers of a Markdown file as anchor macros", () => {
+		const storage = renderEditableMarkers(
+			convertMarkdownToConfluenceStorage(
+				"# Title\n\n<!-- editable:start status -->\nTo be decided\n<!-- editable:end status -->\n"
+			)
+		);
+
+		assert.equal(
+			storage.replace(/\n/g, ""),
+			`<h1>Title</h1>${anchor("status-start")}<p>To be decided</p>${anchor("status-end")}`
+		);
+	});
+
+	it("should leave markers in code blocks alone", () => {
+		const storage = renderEditableMarkers(
+			convertMarkdownToConfluenceStorage("```html\n<!-- editable:start status -->\n```\n")
+		);
+
+		assert.ok(storage.includes("<![CDATA[<!-- editable:start status -->"));
+		assert.equal(findEditableRegions(storage).size, 0);
+	});
+
+	it("should find the content between the markers", () => {
+		const regions = findEditableRegions(edited);
+		const status = regions.get("status")!;
+
+		assert.deepEqual([...regions.keys()], ["status"]);
+		assert.equal(edited.slice(status.start, status.end), "<p>Status: <strong>in review</strong></p>");
+	});
+
+	it("should carry regions over from the existing page", () => {
+		const content = `<h1>New heading</h1>${anchor("status-start")}<p>To be decided</p>${anchor("status-end")}`;
+
+		const result = preserveEditableRegions(content, edited);
+
+		assert.equal(
+			result.content,
+			`<h1>New heading</h1>${anchor("status-start")}<p>Status: <strong>in review</strong></p>${anchor("status-end")}`
+		);
+		assert.deepEqual(result.preserved, ["status"]);
+		assert.deepEqual(result.invalid, []);
+	});
+
+	it("should keep the generated content of regions the page doesn't have", () => {
+		const content = `${anchor("notes-start")}<p>None yet</p>${anchor("notes-end")}`;
+
+		assert.deepEqual(preserveEditableRegions(content, edited), { content, preserved: [], invalid: [] });
+		assert.deepEqual(preserveEditableRegions(content, undefined), { content, preserved: [], invalid: [] });
+	});
+
+	it("should replace regions that aren't well-formed", () => {
+		const content = `${anchor("status-start")}<p>To be decided</p>${anchor("status-end")}`;
+		const broken = `${anchor("status-start")}<p>Unclosed${anchor("status-end")}`;
+
+		assert.deepEqual(preserveEditableRegions(content, broken), { content, preserved: [], invalid: ["status"] });
+	});
+});
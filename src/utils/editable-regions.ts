@@ -0,0 +1,139 @@
+import { validateStorageFormat } from "./storage-validation";
+
+/**
+ * Prefix of the anchor macros delimiting an editable region, e.g. `happi-editable-status-start`
+ */
+const ANCHOR_PREFIX = "happi-editable-";
+
+/**
+ * Marker comments in the source file, e.g. `<!-- editable:start status -->`
+ */
+const MARKER_COMMENT = /<!--\s*editable:(start|end)\s+([\w-]+)\s*-->/g;
+
+/**
+ * Anchor macro marking the start or end of a region, with the paragraph around it.
+ * Confluence adds attributes such as `ac:macro-id` when a page is saved.
+ */
+const ANCHOR_MARKER = new RegExp(
+	`(?:<p[^>]*>\\s*)?<ac:structured-macro\\b[^>]*\\bac:name="anchor"[^>]*>\\s*` +
+		`<ac:parameter ac:name="">${ANCHOR_PREFIX}([\\w-]+)-(start|end)</ac:parameter>\\s*` +
+		`</ac:structured-macro>(?:\\s*</p>)?`,
+	"g"
+);
+
+/**
+ * Content of a region, between its start and end markers
+ */
+interface EditableRegion {
+	start: number;
+	end: number;
+}
+
+/**
+ * Result of {@link preserveEditableRegions}
+ */
+export interface PreservedRegions {
+	/** Page content with the regions of the existing page */
+	content: string;
+	/** Regions carried over from the existing page */
+	preserved: string[];
+	/** Regions of the existing page that aren't well-formed and were replaced */
+	invalid: string[];
+}
+
+/**
+ * Test whether an HTML comment (without `<!--` and `-->`) marks an editable region
+ */
+export function isEditableMarker(comment: string): boolean {
+	return new RegExp(MARKER_COMMENT.source).test(`<!--${comment}-->`);
+}
+
+/**
+ * Turn the name of an anchor macro delimiting an editable region back into its marker comment
+ * @returns The marker comment, or undefined for other anchors
+ */
+export function editableMarkerFromAnchor(anchor: string): string | undefined {
+	const match = new RegExp(`^${ANCHOR_PREFIX}([\\w-]+)-(start|end)$`).exec(anchor.trim());
+	return match ? `<!-- editable:${match[2]} ${match[1]} -->` : undefined;
+}
+
+/**
+ * Replace the editable region marker comments of a converted file with anchor
+ * macros, leaving CDATA sections (code macro bodies) untouched
+ */
+export function renderEditableMarkers(storage: string): string {
+	return storage
+		.split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+		.map((part, index) =>
+			index % 2 === 1
+				? part
+				: part.replace(
+						MARKER_COMMENT,
+						(_comment, kind: string, name: string) =>
+							`<p><ac:structured-macro ac:name="anchor" ac:schema-version="1">` +
+							`<ac:parameter ac:name="">${ANCHOR_PREFIX}${name}-${kind}</ac:parameter></ac:structured-macro></p>`
+					)
+		)
+		.join("");
+}
+
+/**
+ * Find the editable regions of a storage document by name
+ *
+ * Markers inside CDATA sections are ignored, as are regions whose start or end marker is missing.
+ */
+export function findEditableRegions(storage: string): Map<string, EditableRegion> {
+	// Blank out CDATA sections, keeping the offsets intact
+	const searchable = storage.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, (cdata) => " ".repeat(cdata.length));
+	const regions = new Map<string, EditableRegion>();
+	const starts = new Map<string, number>();
+
+	for (const match of searchable.matchAll(ANCHOR_MARKER)) {
+		const [marker, name, kind] = match;
+		if (kind === "start") {
+			starts.set(name, match.index + marker.length);
+		} else if (starts.has(name) && !regions.has(name)) {
+			regions.set(name, { start: starts.get(name)!, end: match.index });
+		}
+	}
+
+	return regions;
+}
+
+/**
+ * Carry the editable regions of the page on Confluence over into its new content
+ *
+ * Each region of the new content that also exists on the page gets the page's
+ * content. Everything outside the regions, and regions that are new or were
+ * removed from the page, come from the source file. A region of the page that
+ * isn't well-formed on its own is replaced rather than risking a broken page.
+ *
+ * @param content - New page content in storage format
+ * @param existing - Current storage format of the page, if it exists
+ */
+export function preserveEditableRegions(content: string, existing: string | undefined): PreservedRegions {
+	const result: PreservedRegions = { content, preserved: [], invalid: [] };
+	if (!existing) {
+		return result;
+	}
+
+	const previous = findEditableRegions(existing);
+	// Replace from the end so the offsets of the earlier regions stay valid
+	const regions = [...findEditableRegions(content)].sort(([, a], [, b]) => b.start - a.start);
+
+	for (const [name, region] of regions) {
+		const edited = previous.get(name);
+		if (!edited) {
+			continue;
+		}
+		const value = existing.slice(edited.start, edited.end);
+		if (validateStorageFormat(value).length > 0) {
+			result.invalid.unshift(name);
+			continue;
+		}
+		result.content = result.content.slice(0, region.start) + value + result.content.slice(region.end);
+		result.preserved.unshift(name);
+	}
+
+	return result;
+}
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { applyFrontMatter, parseFrontMatter, resolvePageFrontMatter } from "./front-matter.ts";
+
+describe("front-matter", () => {
+	describe("parseFrontMatter", () => {
+		it("should split the front matter from the body", () => {
+			const result = parseFrontMatter(
+				"---\ntitle: Setup\nspaceKey: DOCS\nparentId: 12345\nlabels:\n  - guide\nbanner: false\n---\n# Setup\n",
+				"setup.md"
+			);
+
+			assert.deepEqual(result.data, {
+				title: "Setup",
+				spaceKey: "DOCS",
+				parentId: "12345",
+				labels: ["guide"],
+				banner: false
+			});
+			assert.equal(result.body, "# Setup\n");
+		});
+
+		it("should return content without front matter unchanged", () => {
+			const content = "# Title\n\n---\n\ntitle: not front matter\n";
+
+			assert.deepEqual(parseFrontMatter(content, "a.md"), { data: {}, body: content });
+		});
+
+		it("should accept empty front matter", () => {
+			assert.deepEqual(parseFrontMatter("---\n---\nBody", "a.md"), { data: {}, body: "Body" });
+		});
+
+		it("should report unknown and mistyped fields with the file name", () => {
+			assert.throws(() => parseFrontMatter("---\ntitel: Setup\n---\n", "docs/setup.md"), {
+				message: /^Invalid front matter in docs\/setup\.md: .*titel/
+			});
+			assert.throws(() => parseFrontMatter("---\nbanner: maybe\n---\n", "docs/setup.md"), {
+				message: /^Invalid front matter in docs\/setup\.md: banner:/
+			});
+		});
+
+		it("should report invalid YAML with the file name", () => {
+			assert.throws(() => parseFrontMatter("---\ntitle: [unclosed\n---\n", "a.md"), {
+				message: /^Invalid front matter in a\.md:/
+			});
+		});
+	});
+
+	describe("applyFrontMatter", () => {
+		it("should override the page mapping", () => {
+			const page = applyFrontMatter(
+				{ pageId: "1", file: "a.md", title: "Mapped", spaceKey: "DOCS", labels: ["mapped"] },
+				{ title: "Front Matter", parentId: "2", labels: ["guide"] }
+			);
+
+			assert.deepEqual(page, {
+				pageId: "1",
+				file: "a.md",
+				title: "Front Matter",
+				spaceKey: "DOCS",
+				parentId: "2",
+				labels: ["guide"]
+			});
+		});
+
+		it("should merge banner settings and turn the banner off", () => {
+			const page = { pageId: "1", file: "a.md", banner: { panel: "note" as const } };
+
+			assert.deepEqual(applyFrontMatter(page, { banner: { position: "bottom" } }).banner, {
+				panel: "note",
+				position: "bottom"
+			});
+			assert.deepEqual(applyFrontMatter(page, { banner: false }).banner, { panel: "note", position: "none" });
+			assert.deepEqual(applyFrontMatter(page, { banner: true }).banner, { panel: "note" });
+		});
+	});
+
+	describe("resolvePageFrontMatter", () => {
+		it("should apply the front matter of Markdown files and the <title> of HTML files", async () => {
+			const dir = await fs.mkdtemp(path.join(os.tmpdir(), "front-matter-test-"));
+			await fs.writeFile(path.join(dir, "a.md"), "---\ntitle: Front Matter\n---\n# A\n");
+			await fs.writeFile(path.join(dir, "b.html"), "<html><head><title>HTML Title</title></head></html>");
+
+			try {
+				assert.equal((await resolvePageFrontMatter({ file: "a.md", title: "A" }, dir)).title, "Front Matter");
+				assert.equal((await resolvePageFrontMatter({ file: "b.html" }, dir)).title, "HTML Title");
+				assert.equal((await resolvePageFrontMatter({ file: "b.html", title: "Configured" }, dir)).title, "Configured");
+			} finally {
+				await fs.rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+});
@@ -0,0 +1,101 @@
+import { readFile } from "fs/promises";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { FrontMatterSchema, FrontMatterType, SyncFilesOptions } from "../types";
+import { detectContentType } from "./confluence-converter";
+import { extractHtmlTitle } from "./confluence-html-parser";
+
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?^(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/m;
+
+/**
+ * Front matter of a Markdown file and the content following it
+ */
+export interface FrontMatter {
+	data: FrontMatterType;
+	body: string;
+}
+
+/**
+ * Split the YAML front matter from a Markdown file and validate it
+ *
+ * Content without front matter is returned unchanged with empty data.
+ *
+ * @param content - Markdown file content
+ * @param file - File name used in error messages
+ * @throws Error naming the file when the YAML is invalid or has unknown or mistyped fields
+ */
+export function parseFrontMatter(content: string, file: string): FrontMatter {
+	const match = content.startsWith("---") ? FRONT_MATTER_PATTERN.exec(content) : null;
+	if (!match || match.index !== 0) {
+		return { data: {}, body: content };
+	}
+
+	let raw: unknown;
+	try {
+		raw = parseYaml(match[1]);
+	} catch (error) {
+		throw new Error(`Invalid front matter in ${file}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	const result = FrontMatterSchema.safeParse(raw ?? {});
+	if (!result.success) {
+		const issues = result.error.issues.map((issue) =>
+			issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+		);
+		throw new Error(`Invalid front matter in ${file}: ${issues.join("; ")}`);
+	}
+
+	return { data: result.data, body: content.slice(match[0].length) };
+}
+
+/**
+ * Apply front matter overrides to a page mapping
+ *
+ * `banner: false` leaves out the banner, banner settings are merged into the page's own.
+ */
+export function applyFrontMatter(page: SyncFilesOptions["page"], data: FrontMatterType): SyncFilesOptions["page"] {
+	const result = {
+		...page,
+		title: data.title ?? page.title,
+		spaceKey: data.spaceKey ?? page.spaceKey,
+		parentId: data.parentId ?? page.parentId,
+		labels: data.labels ?? page.labels
+	};
+	if (data.banner === false) {
+		result.banner = { ...page.banner, position: "none" };
+	} else if (typeof data.banner === "object") {
+		result.banner = { ...page.banner, ...data.banner };
+	}
+	return result;
+}
+
+/**
+ * Read a mapped Markdown file's front matter and apply it to the page mapping
+ *
+ * Used to know the final titles of all pages before syncing, so links between
+ * files point at the right page. HTML files without a configured title get the
+ * document's `<title>`, as syncing them does. Files that can't be read or
+ * parsed are returned unchanged; syncing them reports the error.
+ *
+ * @param page - Page mapping
+ * @param fileRoot - Base directory the file is relative to
+ */
+export async function resolvePageFrontMatter(
+	page: SyncFilesOptions["page"],
+	fileRoot: string
+): Promise<SyncFilesOptions["page"]> {
+	const format = page.format ?? detectContentType(page.file);
+	if (format !== "markdown" && !(format === "html" && !page.title)) {
+		return page;
+	}
+
+	try {
+		const content = await readFile(path.resolve(fileRoot, page.file), "utf-8");
+		if (format === "html") {
+			return { ...page, title: extractHtmlTitle(content) };
+		}
+		return applyFrontMatter(page, parseFrontMatter(content, page.file).data);
+	} catch {
+		return page;
+	}
+}
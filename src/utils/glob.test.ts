@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { globToRegExp, matchesAnyGlob } from "./glob.ts";
+
+describe("glob", () => {
+	it("should match single segment wildcards", () => {
+		const pattern = globToRegExp("*.md");
+
+		assert.ok(pattern.test("readme.md"));
+		assert.ok(!pattern.test("guides/readme.md"), "* should not cross directories");
+	});
+
+	it("should match any depth with **", () => {
+		const pattern = globToRegExp("**/*.md");
+
+		assert.ok(pattern.test("readme.md"), "**/ should match zero directories");
+		assert.ok(pattern.test("guides/setup/install.md"));
+		assert.ok(!pattern.test("guides/diagram.png"));
+	});
+
+	it("should support alternatives and single characters", () => {
+		assert.ok(globToRegExp("*.{md,markdown}").test("notes.markdown"));
+		assert.ok(globToRegExp("v?.md").test("v2.md"));
+		assert.ok(!globToRegExp("v?.md").test("v10.md"));
+	});
+
+	it("should escape regular expression characters", () => {
+		assert.ok(globToRegExp("a+b.md").test("a+b.md"));
+		assert.ok(!globToRegExp("a.md").test("abmd"));
+	});
+
+	it("should match against any of several patterns", () => {
+		assert.ok(matchesAnyGlob("drafts/todo.md", ["archive/**", "drafts/**"]));
+		assert.ok(!matchesAnyGlob("guides/todo.md", ["archive/**", "drafts/**"]));
+	});
+});
@@ -0,0 +1,56 @@
+/**
+ * Convert a glob pattern to a regular expression
+ *
+ * Supports `**` (any number of path segments), `*` (anything but a slash),
+ * `?` (a single character other than a slash) and `{a,b}` alternatives.
+ * Paths are matched with forward slashes.
+ *
+ * @param pattern - Glob pattern, e.g. `guides/**\/*.md`
+ * @returns Regular expression matching the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	let inGroup = false;
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" matches zero or more directories, a trailing "**" matches everything
+				if (pattern[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			inGroup = true;
+			source += "(?:";
+		} else if (char === "}" && inGroup) {
+			inGroup = false;
+			source += ")";
+		} else if (char === "," && inGroup) {
+			source += "|";
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path matches any of the given glob patterns
+ * @param filePath - Path relative to the glob root, using forward slashes
+ * @param patterns - Glob patterns
+ */
+export function matchesAnyGlob(filePath: string, patterns: string[]): boolean {
+	return patterns.some((pattern) => globToRegExp(pattern).test(filePath));
+}
@@ -0,0 +1,10 @@
+import { createHash } from "crypto";
+
+/**
+ * Compute a SHA-256 hex digest of the given content
+ * @param content - String or binary content to hash
+ * @returns Lowercase hex digest
+ */
+export function hashContent(content: string | Buffer): string {
+	return createHash("sha256").update(content).digest("hex");
+}
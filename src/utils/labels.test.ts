@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ConfluenceApiClient } from "../confluence-api.ts";
+import { normalizeLabels, reconcileLabels, sameLabels } from "./labels.ts";
+import { createLogger } from "./logging/index.ts";
+
+// Minimal client holding the labels of a single page
+const createClient = (labels: string[]) => {
+	const state = { labels: [...labels], fetched: 0 };
+	const client = {
+		getLabels: async () => {
+			state.fetched++;
+			return [...state.labels];
+		},
+		addLabels: async (_pageId: string, added: string[]) => {
+			state.labels.push(...added);
+		},
+		removeLabel: async (_pageId: string, label: string) => {
+			state.labels = state.labels.filter((name) => name !== label);
+		}
+	} as unknown as ConfluenceApiClient;
+	return { client, state };
+};
+
+const logger = createLogger(false, "Test");
+
+describe("labels", () => {
+	it("should normalize labels", () => {
+		assert.deepEqual(normalizeLabels([" Guide", "guide", "API", ""]), ["guide", "api"]);
+	});
+
+	it("should compare labels regardless of order", () => {
+		assert.ok(sameLabels(["a", "b"], ["b", "a"]));
+		assert.ok(sameLabels([], undefined));
+		assert.ok(!sameLabels(["a"], ["a", "b"]));
+	});
+
+	describe("reconcileLabels", () => {
+		it("should add missing labels and remove labels that are no longer configured", async () => {
+			const { client, state } = createClient(["happi-file-sync", "old", "manual"]);
+
+			const applied = await reconcileLabels(client, "1", { labels: ["Guide"], previous: ["old"] }, logger);
+
+			assert.deepEqual(applied, ["guide"]);
+			assert.deepEqual(state.labels.sort(), ["guide", "happi-file-sync", "manual"]);
+		});
+
+		it("should remove labels added by hand in strict mode, keeping the managed label", async () => {
+			const { client, state } = createClient(["happi-file-sync", "manual"]);
+
+			await reconcileLabels(client, "1", { labels: ["guide"], strict: true }, logger);
+
+			assert.deepEqual(state.labels.sort(), ["guide", "happi-file-sync"]);
+		});
+
+		it("should not fetch labels when none are configured or were applied", async () => {
+			const { client, state } = createClient(["manual"]);
+
+			await reconcileLabels(client, "1", { labels: [] }, logger);
+
+			assert.equal(state.fetched, 0);
+			assert.deepEqual(state.labels, ["manual"]);
+		});
+	});
+});
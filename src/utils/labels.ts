@@ -0,0 +1,75 @@
+import type { ConfluenceApiClient } from "../confluence-api";
+import type { Logger } from "./logging";
+import { MANAGED_LABEL } from "./sync-state";
+
+export interface ReconcileLabelsOptions {
+	/** Labels the page should have */
+	labels: string[];
+	/** Labels applied by the previous sync */
+	previous?: string[];
+	/** Also remove labels that weren't applied by the action */
+	strict?: boolean;
+}
+
+/**
+ * Normalize labels the way Confluence stores them (trimmed and lowercase), without duplicates
+ */
+export function normalizeLabels(labels: string[]): string[] {
+	return [...new Set(labels.map((label) => label.trim().toLowerCase()).filter((label) => label.length > 0))];
+}
+
+/**
+ * Check whether two label lists contain the same labels
+ */
+export function sameLabels(a: string[] = [], b: string[] = []): boolean {
+	const set = new Set(a);
+	return a.length === b.length && b.every((label) => set.has(label));
+}
+
+/**
+ * Bring the labels of a page in line with the configured labels
+ *
+ * Missing labels are added. Labels applied by a previous sync that are no
+ * longer configured are removed; labels added by hand are kept unless strict
+ * mode is on. The label marking managed pages is never removed.
+ *
+ * @param client - Confluence API client
+ * @param pageId - Page to label
+ * @param options - Configured and previously applied labels
+ * @param logger - Logger
+ * @returns The labels applied by this sync, to store for the next one
+ */
+export async function reconcileLabels(
+	client: ConfluenceApiClient,
+	pageId: string,
+	options: ReconcileLabelsOptions,
+	logger: Logger
+): Promise<string[]> {
+	const labels = normalizeLabels(options.labels);
+	const previous = options.previous ?? [];
+
+	// Nothing to add or remove, so don't fetch the page's labels
+	if (!options.strict && labels.length === 0 && previous.length === 0) {
+		return labels;
+	}
+
+	const current = await client.getLabels(pageId);
+	const wanted = new Set(labels);
+	const added = labels.filter((label) => !current.includes(label));
+	const removed = (options.strict ? current : previous.filter((label) => current.includes(label))).filter(
+		(label) => !wanted.has(label) && label !== MANAGED_LABEL
+	);
+
+	if (added.length > 0) {
+		await client.addLabels(pageId, added);
+		logger.info(`Added labels to page ${pageId}: ${added.join(", ")}`);
+	}
+	for (const label of removed) {
+		await client.removeLabel(pageId, label);
+	}
+	if (removed.length > 0) {
+		logger.info(`Removed labels from page ${pageId}: ${removed.join(", ")}`);
+	}
+
+	return labels;
+}
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { createPageLinkResolver } from "./page-links.ts";
+import { createLogger } from "./logging/index.ts";
+
+describe("page-links", () => {
+	const fileRoot = path.resolve("/repo/docs");
+	const pages = [
+		{ pageId: "1", file: "index.md", title: "Home", spaceKey: "DEV" },
+		{ pageId: "2", file: "guides/setup.md" }
+	];
+
+	it("should resolve links relative to the source file", () => {
+		const resolve = createPageLinkResolver(
+			pages,
+			fileRoot,
+			path.join(fileRoot, "guides", "intro.md"),
+			createLogger(false, "Test")
+		);
+
+		assert.deepEqual(resolve("./setup.md"), { pageId: "2", title: undefined, spaceKey: undefined });
+		assert.deepEqual(resolve("../index.md"), { pageId: "1", title: "Home", spaceKey: "DEV" });
+	});
+
+	it("should return undefined for files that aren't mapped", () => {
+		const resolve = createPageLinkResolver(
+			pages,
+			fileRoot,
+			path.join(fileRoot, "index.md"),
+			createLogger(false, "Test")
+		);
+
+		assert.equal(resolve("./missing.md"), undefined);
+	});
+
+	it("should decode URI-encoded links", () => {
+		const resolve = createPageLinkResolver(
+			[{ pageId: "3", file: "my guide.md" }],
+			fileRoot,
+			path.join(fileRoot, "index.md"),
+			createLogger(false, "Test")
+		);
+
+		assert.equal(resolve("my%20guide.md")?.pageId, "3");
+	});
+});
@@ -0,0 +1,47 @@
+import * as path from "path";
+import type { SyncFilesOptions } from "../types";
+import type { PageLinkTarget } from "./confluence-markdown-parser";
+import type { Logger } from "./logging";
+
+/**
+ * Create a resolver for links between mapped files
+ *
+ * Links are resolved relative to the file containing them and matched against
+ * the files of all configured pages. Relative links to files that aren't
+ * mapped are reported as warnings, since they won't resolve in Confluence.
+ *
+ * @param pages - All page mappings of the current configuration
+ * @param fileRoot - Base directory the mapped files are relative to
+ * @param sourceFilePath - Absolute path of the file containing the links
+ * @param logger - Logger used to warn about unmapped links
+ */
+export function createPageLinkResolver(
+	pages: SyncFilesOptions["page"][],
+	fileRoot: string,
+	sourceFilePath: string,
+	logger: Logger
+): (href: string) => PageLinkTarget | undefined {
+	const sourceDir = path.dirname(sourceFilePath);
+	const pagesByPath = new Map(pages.map((page) => [path.resolve(fileRoot, page.file), page]));
+
+	return (href: string) => {
+		let decoded = href.replace(/\?.*$/, "");
+		try {
+			decoded = decodeURI(decoded);
+		} catch {
+			// Keep the raw reference if it isn't valid URI encoding
+		}
+
+		const page = pagesByPath.get(path.resolve(sourceDir, decoded));
+		if (!page) {
+			logger.warn(`Relative link ${href} in ${path.basename(sourceFilePath)} does not point to a mapped file`);
+			return undefined;
+		}
+
+		return {
+			pageId: page.pageId,
+			title: page.title,
+			spaceKey: page.spaceKey
+		};
+	};
+}
@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffStorage, normalizeStorageForDiff } from "./storage-diff.ts";
+
+describe("storage-diff", () => {
+	it("should put each block on its own line and drop generated attributes", () => {
+		assert.equal(
+			normalizeStorageForDiff(
+				"<h1>Title</h1>\n  <ul><li>One</li><li>Two <em>2</em></li></ul>" +
+					'<ac:structured-macro ac:name="info" ac:schema-version="1" ac:macro-id="abc">' +
+					"<ac:rich-text-body><p>Note</p></ac:rich-text-body></ac:structured-macro>"
+			),
+			[
+				"<h1>Title</h1>",
+				"<ul>",
+				"<li>One</li>",
+				"<li>Two <em>2</em></li>",
+				"</ul>",
+				'<ac:structured-macro ac:name="info">',
+				"<ac:rich-text-body>",
+				"<p>Note</p>",
+				"</ac:rich-text-body>",
+				"</ac:structured-macro>",
+				""
+			].join("\n")
+		);
+	});
+
+	it("should keep the lines and indentation of CDATA sections", () => {
+		const normalized = normalizeStorageForDiff(
+			'<ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[if (a) {\n  b();\n}]]></ac:plain-text-body></ac:structured-macro>'
+		);
+
+		assert.ok(normalized.includes("<![CDATA[if (a) {\n  b();\n}]]>"));
+	});
+
+	it("should create a unified diff of the changed blocks", () => {
+		const diff = diffStorage(
+			"docs/a.md",
+			'<h1>Title</h1><p ac:local-id="1">Old</p><p>Same</p>',
+			"<h1>Title</h1><p>New</p><p>Same</p>"
+		);
+
+		assert.equal(
+			diff,
+			[
+				"--- confluence/docs/a.md",
+				"+++ repository/docs/a.md",
+				"@@ -1,3 +1,3 @@",
+				" <h1>Title</h1>",
+				"-<p>Old</p>",
+				"+<p>New</p>",
+				" <p>Same</p>",
+				""
+			].join("\n")
+		);
+	});
+
+	it("should return an empty diff when only formatting differs", () => {
+		assert.equal(
+			diffStorage(
+				"a.md",
+				'<p>Same</p>\n<ac:structured-macro ac:name="toc" ac:macro-id="x" />',
+				'<p>Same</p><ac:structured-macro ac:name="toc" />'
+			),
+			""
+		);
+	});
+});
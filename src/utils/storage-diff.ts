@@ -0,0 +1,60 @@
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from "diff";
+
+/**
+ * Attributes Confluence adds when it saves a page, which would make every page look changed
+ */
+const GENERATED_ATTRIBUTES = /\s(?:ac:macro-id|ac:local-id|local-id|ac:schema-version|data-layout)="[^"]*"/g;
+
+/**
+ * Elements that start a new line in the normalized document, and end it when they close
+ */
+const BLOCK_TAGS =
+	"p|h[1-6]|ul|ol|li|table|thead|tbody|tr|th|td|blockquote|pre|hr|div|ac:structured-macro|ac:parameter|ac:rich-text-body|ac:plain-text-body|ac:image";
+const OPENING_TAG = new RegExp(`(<(?:${BLOCK_TAGS})\\b[^>]*>)`, "g");
+const CLOSING_TAG = new RegExp(`(</(?:${BLOCK_TAGS})>|<(?:${BLOCK_TAGS})\\b[^>]*/>)`, "g");
+
+/**
+ * Lay out storage format XHTML with one block per line, so a line diff shows meaningful changes
+ *
+ * Attributes Confluence generates when saving are dropped and whitespace
+ * between tags is collapsed; CDATA sections (code macro bodies) keep their lines.
+ *
+ * @param storage - Storage format document
+ * @returns Normalized document, ending with a newline unless it is empty
+ */
+export function normalizeStorageForDiff(storage: string): string {
+	const lines = storage.split(/(<!\[CDATA\[[\s\S]*?\]\]>)/).flatMap((part, index) =>
+		index % 2 === 1
+			? part.split("\n")
+			: part
+					.replace(GENERATED_ATTRIBUTES, "")
+					.replace(/\s+/g, " ")
+					.replace(OPENING_TAG, "\n$1")
+					.replace(CLOSING_TAG, "$1\n")
+					.split("\n")
+					.map((line) => line.trim())
+					.filter((line) => line.length > 0)
+	);
+
+	return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+/**
+ * Create a unified diff between the storage format on Confluence and the content that would replace it
+ *
+ * @param file - Source file, used to label the diff
+ * @param current - Storage format on Confluence, empty for pages that don't exist yet
+ * @param next - New storage format
+ * @returns The diff, or an empty string when the normalized documents are equal
+ */
+export function diffStorage(file: string, current: string, next: string): string {
+	const before = normalizeStorageForDiff(current);
+	const after = normalizeStorageForDiff(next);
+	if (before === after) {
+		return "";
+	}
+	return createTwoFilesPatch(`confluence/${file}`, `repository/${file}`, before, after, undefined, undefined, {
+		context: 3,
+		headerOptions: FILE_HEADERS_ONLY
+	});
+}
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findSourceLine, formatStorageIssue, validateStorageFormat } from "./storage-validation.ts";
+
+const messages = (storage: string) => validateStorageFormat(storage).map((issue) => issue.message);
+
+describe("storage-validation", () => {
+	describe("validateStorageFormat", () => {
+		it("should accept well-formed storage format", () => {
+			const storage =
+				"<h1>Title</h1><p>A &amp; B&nbsp;&#169;<br /></p><!-- note -->" +
+				'<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">js</ac:parameter>' +
+				"<ac:plain-text-body><![CDATA[if (a < b && c) {}]]></ac:plain-text-body></ac:structured-macro>" +
+				'<ac:image><ri:attachment ri:filename="a.png" /></ac:image>';
+
+			assert.deepEqual(validateStorageFormat(storage), []);
+		});
+
+		it("should report unclosed and mismatched tags", () => {
+			assert.deepEqual(messages("<p>a<br>b</p><hr>"), ["Closing tag </p> does not match <br>", "Unclosed <hr>"]);
+			assert.deepEqual(messages("</div>"), ["Unexpected closing tag </div>"]);
+		});
+
+		it("should report unescaped characters and broken attributes", () => {
+			assert.deepEqual(messages("<p>a & b < c</p>"), ["Unescaped &", "Unescaped <"]);
+			assert.deepEqual(messages('<a href="?a=1&b=2" href="x">x</a>'), [
+				"Unescaped < or & in attribute href of <a>",
+				"Duplicate attribute href on <a>"
+			]);
+			assert.deepEqual(messages("<img src=a.png />"), ["Malformed tag"]);
+		});
+
+		it("should report structures Confluence rejects", () => {
+			assert.deepEqual(messages("<p><ac:parameter>x</ac:parameter></p>"), [
+				"<ac:parameter> must be a direct child of <ac:structured-macro>"
+			]);
+			assert.deepEqual(messages("<ac:structured-macro></ac:structured-macro>"), ["Macro without ac:name"]);
+			assert.deepEqual(messages('<p><ri:page ri:content-title="A" /></p>'), [
+				"<ri:page> must be inside an <ac:image> or <ac:link>"
+			]);
+			assert.deepEqual(messages("<p><table></table></p>"), ["<table> is not allowed inside <p>"]);
+			assert.deepEqual(
+				messages(
+					'<ac:structured-macro ac:name="code"><ac:plain-text-body>x</ac:plain-text-body></ac:structured-macro>'
+				),
+				["<ac:plain-text-body> must only contain CDATA"]
+			);
+		});
+	});
+
+	describe("findSourceLine", () => {
+		it("should locate the source line of a problem", () => {
+			const source = "# Guide\n\nSome text\n\n<div>unclosed block\n";
+			const storage = "<h1>Guide</h1><p>Some text</p><div>unclosed block";
+			const [issue] = validateStorageFormat(storage);
+
+			assert.equal(findSourceLine(source, storage, issue), 5);
+			assert.equal(
+				formatStorageIssue("docs/guide.md", source, storage, issue),
+				'docs/guide.md:5: Unclosed <div> near "<div>unclosed block"'
+			);
+		});
+
+		it("should leave out the line when the text isn't in the source", () => {
+			const storage = "<p>generated";
+			const [issue] = validateStorageFormat(storage);
+
+			assert.equal(formatStorageIssue("a.md", "other", storage, issue), 'a.md: Unclosed <p> near "<p>generated"');
+		});
+	});
+});
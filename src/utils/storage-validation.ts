@@ -0,0 +1,220 @@
+import { decodeHtmlEntities } from "./xml";
+
+/**
+ * A problem found in a storage format document
+ */
+export interface StorageIssue {
+	message: string;
+	/** Position in the storage document */
+	offset: number;
+	/** Markup starting at the problem, shortened */
+	fragment: string;
+}
+
+/**
+ * Elements that can't be nested inside a paragraph
+ */
+const BLOCK_ELEMENTS = new Set([
+	"blockquote",
+	"div",
+	"dl",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"hr",
+	"ol",
+	"p",
+	"pre",
+	"table",
+	"ul"
+]);
+
+/**
+ * Elements that must be direct children of a macro
+ */
+const MACRO_CHILDREN = new Set(["ac:parameter", "ac:plain-text-body", "ac:rich-text-body"]);
+
+const START_TAG = /^<([A-Za-z][\w:.-]*)((?:\s+[^\s"'=<>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/;
+const END_TAG = /^<\/([A-Za-z][\w:.-]*)\s*>/;
+const ATTRIBUTE = /([^\s"'=<>/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const BARE_AMPERSAND = /&(?!(?:[A-Za-z][A-Za-z0-9]*|#\d+|#x[0-9A-Fa-f]+);)/;
+
+/**
+ * Check a storage format document for well-formedness and for structures
+ * Confluence rejects, such as macro parameters outside of a macro or block
+ * elements inside a paragraph
+ *
+ * @param storage - Storage format document
+ * @returns Problems found, in document order
+ */
+export function validateStorageFormat(storage: string): StorageIssue[] {
+	const issues: StorageIssue[] = [];
+	const stack: Array<{ name: string; offset: number }> = [];
+	const report = (message: string, offset: number) =>
+		issues.push({ message, offset, fragment: shorten(storage.slice(offset)) });
+
+	let offset = 0;
+	while (offset < storage.length) {
+		const next = storage.indexOf("<", offset);
+		const text = storage.slice(offset, next === -1 ? storage.length : next);
+		checkText(text, offset, stack.at(-1)?.name, report);
+		if (next === -1) {
+			break;
+		}
+		offset = next;
+		const rest = storage.slice(offset);
+
+		if (rest.startsWith("<!--")) {
+			const end = storage.indexOf("-->", offset);
+			if (end === -1) {
+				report("Unclosed comment", offset);
+				break;
+			}
+			offset = end + 3;
+		} else if (rest.startsWith("<![CDATA[")) {
+			const end = storage.indexOf("]]>", offset);
+			if (end === -1) {
+				report("Unclosed CDATA section", offset);
+				break;
+			}
+			offset = end + 3;
+		} else if (END_TAG.test(rest)) {
+			const [tag, name] = END_TAG.exec(rest)!;
+			const open = stack.at(-1);
+			if (!open) {
+				report(`Unexpected closing tag </${name}>`, offset);
+			} else if (open.name !== name) {
+				report(`Closing tag </${name}> does not match <${open.name}>`, offset);
+				// Recover by closing up to the matching element, if there is one
+				const index = stack.map((element) => element.name).lastIndexOf(name);
+				if (index !== -1) {
+					stack.length = index;
+				}
+			} else {
+				stack.pop();
+			}
+			offset += tag.length;
+		} else if (START_TAG.test(rest)) {
+			const [tag, name, attributeText, selfClosing] = START_TAG.exec(rest)!;
+			checkStartTag(name, attributeText, stack.at(-1)?.name, offset, report);
+			if (!selfClosing) {
+				stack.push({ name, offset });
+			}
+			offset += tag.length;
+		} else {
+			report(/^<[A-Za-z]/.test(rest) ? "Malformed tag" : "Unescaped <", offset);
+			offset += 1;
+		}
+	}
+
+	for (const element of stack) {
+		report(`Unclosed <${element.name}>`, element.offset);
+	}
+
+	return issues.sort((a, b) => a.offset - b.offset);
+}
+
+function checkText(
+	text: string,
+	offset: number,
+	parent: string | undefined,
+	report: (message: string, offset: number) => void
+): void {
+	const ampersand = BARE_AMPERSAND.exec(text);
+	if (ampersand) {
+		report("Unescaped &", offset + ampersand.index);
+	}
+	if (parent === "ac:plain-text-body" && text.trim()) {
+		report("<ac:plain-text-body> must only contain CDATA", offset);
+	}
+	const cdataEnd = text.indexOf("]]>");
+	if (cdataEnd !== -1) {
+		report("Unexpected ]]> outside of CDATA", offset + cdataEnd);
+	}
+}
+
+function checkStartTag(
+	name: string,
+	attributeText: string,
+	parent: string | undefined,
+	offset: number,
+	report: (message: string, offset: number) => void
+): void {
+	const attributes = new Map<string, string>();
+	for (const [, attribute, doubleQuoted, singleQuoted] of attributeText.matchAll(ATTRIBUTE)) {
+		if (attributes.has(attribute)) {
+			report(`Duplicate attribute ${attribute} on <${name}>`, offset);
+		}
+		const value = doubleQuoted ?? singleQuoted;
+		attributes.set(attribute, value);
+		if (value.includes("<") || BARE_AMPERSAND.test(value)) {
+			report(`Unescaped < or & in attribute ${attribute} of <${name}>`, offset);
+		}
+	}
+
+	if (name === "ac:structured-macro" && !attributes.get("ac:name")) {
+		report("Macro without ac:name", offset);
+	}
+	if (MACRO_CHILDREN.has(name) && parent !== "ac:structured-macro") {
+		report(`<${name}> must be a direct child of <ac:structured-macro>`, offset);
+	}
+	if (name.startsWith("ri:") && !parent?.startsWith("ac:")) {
+		report(`<${name}> must be inside an <ac:image> or <ac:link>`, offset);
+	}
+	if (parent === "p" && BLOCK_ELEMENTS.has(name)) {
+		report(`<${name}> is not allowed inside <p>`, offset);
+	}
+	if (parent === "ac:plain-text-body") {
+		report("<ac:plain-text-body> must only contain CDATA", offset);
+	}
+}
+
+function shorten(markup: string): string {
+	const line = markup.replace(/\s+/g, " ");
+	return line.length > 60 ? `${line.slice(0, 60)}…` : line;
+}
+
+/**
+ * Find the line of the source file that most likely produced a storage fragment
+ *
+ * Looks for the text content around the problem in the source file. This is a
+ * best effort: markup generated by the converter, such as the banner, has no source line.
+ *
+ * @param source - Source file content
+ * @param storage - Storage format document
+ * @param issue - Problem to locate
+ * @returns 1-based line number, or undefined when the text isn't found
+ */
+export function findSourceLine(source: string, storage: string, issue: StorageIssue): number | undefined {
+	const text = decodeHtmlEntities(
+		storage
+			.slice(issue.offset, issue.offset + 200)
+			.replace(/<!\[CDATA\[|\]\]>/g, "")
+			.replace(/<[^>]*>?/g, "\n")
+	);
+
+	const candidates = text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.length >= 3);
+
+	for (const candidate of candidates) {
+		const index = source.indexOf(candidate.slice(0, 40));
+		if (index !== -1) {
+			return source.slice(0, index).split("\n").length;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Describe a storage issue, pointing at the source file and line when known,
+ * e.g. `docs/guide.md:12: Unescaped & near "& more</p>"`
+ */
+export function formatStorageIssue(file: string, source: string, storage: string, issue: StorageIssue): string {
+	const line = findSourceLine(source, storage, issue);
+	return `${file}${line ? `:${line}` : ""}: ${issue.message} near "${issue.fragment}"`;
+}
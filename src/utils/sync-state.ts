@@ -0,0 +1,83 @@
+import type { ConfluenceApiClient, ConfluenceContentProperty } from "../confluence-api";
+import type { FileMappingType } from "../types";
+import * as path from "path";
+import { hashContent } from "./hash";
+
+/**
+ * Key of the content property holding the state of the last sync
+ */
+export const SYNC_STATE_PROPERTY = "happi-file-sync";
+
+/**
+ * Label marking the pages managed by the action
+ */
+export const MANAGED_LABEL = "happi-file-sync";
+
+/**
+ * What the action last published to a page
+ */
+export interface SyncState {
+	/** Hash of the published title and storage body */
+	contentHash: string;
+	/** Page version created by the last sync */
+	version: number;
+	/** Source file (or folder, for the index pages of folders), relative to fileRoot with forward slashes */
+	file?: string;
+	/** Configuration that synced the page (see {@link getSyncOwner}), so pruning leaves the pages of others alone */
+	owner?: string;
+	/** Labels applied by the last sync, so labels removed from the configuration are removed from the page */
+	labels?: string[];
+	/**
+	 * Hash of the title and body as stored by Confluence, without the content of editable
+	 * regions; only recorded for pages with editable regions, so edits to them aren't drift
+	 */
+	pageHash?: string;
+}
+
+/**
+ * Identify the configuration that syncs pages: the configured `owner`, or else
+ * the repository the workflow runs in
+ * @param fileMap - Configuration
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns The owner, or undefined outside of a workflow when none is configured
+ */
+export function getSyncOwner(fileMap: FileMappingType, env = process.env): string | undefined {
+	return fileMap.owner ?? (env.GITHUB_REPOSITORY || undefined);
+}
+
+/**
+ * Hash a page title and storage body for change detection
+ */
+export function hashPageContent(title: string, body: string): string {
+	return hashContent(`${title}\n${body}`);
+}
+
+/**
+ * Read the sync state stored on a page
+ */
+export async function readSyncState(
+	client: ConfluenceApiClient,
+	pageId: string
+): Promise<ConfluenceContentProperty<SyncState> | null> {
+	return client.getContentProperty<SyncState>(pageId, SYNC_STATE_PROPERTY);
+}
+
+/**
+ * Store the sync state on a page after publishing and label it as managed
+ */
+export async function writeSyncState(
+	client: ConfluenceApiClient,
+	pageId: string,
+	state: SyncState,
+	existing?: ConfluenceContentProperty<SyncState> | null
+): Promise<void> {
+	await client.setContentProperty(pageId, SYNC_STATE_PROPERTY, state, existing);
+	await client.addLabels(pageId, [MANAGED_LABEL]);
+}
+
+/**
+ * Normalize a mapped file path for comparison with {@link SyncState.file}
+ */
+export function normalizeSourcePath(file: string): string {
+	return path.posix.normalize(file.split(path.sep).join("/")).replace(/^\.\//, "");
+}
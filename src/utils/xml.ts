@@ -0,0 +1,43 @@
+/**
+ * Escape text for use in XML character data or attribute values
+ * @param value - Raw text
+ * @returns Text with XML special characters replaced by entities
+ */
+export function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/**
+ * Decode the entities that marked emits when escaping text
+ * Note: Decode &amp; last since it's used to encode the & character
+ * @param value - Escaped text
+ * @returns Decoded text
+ */
+export function decodeHtmlEntities(value: string): string {
+	return value
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
+/**
+ * Parse the attributes of a single HTML start tag
+ * @param tag - Start tag markup, e.g. `<img src="a.png" alt="A">`
+ * @returns Map of attribute name to (still escaped) attribute value
+ */
+export function parseTagAttributes(tag: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	const attributePattern = /([\w:-]+)="([^"]*)"/g;
+	let match: RegExpExecArray | null;
+	while ((match = attributePattern.exec(tag)) !== null) {
+		attributes[match[1]] = match[2];
+	}
+	return attributes;
+}